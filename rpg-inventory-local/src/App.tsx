@@ -1,48 +1,354 @@
-import React, { useEffect, useState } from "react";
+import React, {
+  useEffect,
+  useMemo,
+  useState,
+  type SetStateAction,
+} from "react";
 import {
   DndContext,
+  KeyboardSensor,
+  MouseSensor,
+  TouchSensor,
+  closestCenter,
   useDraggable,
   useDroppable,
   pointerWithin,
+  useSensor,
+  useSensors,
+  type Announcements,
+  type CollisionDetection,
+  type DragEndEvent,
+  type DragOverEvent,
+  type DragStartEvent,
 } from "@dnd-kit/core";
 import {
   arrayMove,
   SortableContext,
+  sortableKeyboardCoordinates,
   useSortable,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
+import type {
+  Character,
+  Item,
+  ItemTemplate,
+  Loadout,
+  Stats,
+} from "./types.ts";
+import { SLOT_LAYOUT } from "./slotLayout.ts";
+import {
+  CATEGORY_LABELS,
+  SLOT_IDS,
+  SLOT_LABELS,
+  canEquip,
+  equipItem,
+  isSlotId,
+  isTwoHanded,
+  type SlotId,
+} from "./slots.ts";
+import { computeTotals, equippedItems } from "./stats.ts";
+import CharacterDialog from "./CharacterDialog.tsx";
+import {
+  baseAttributes,
+  checkRequirements,
+  levelOf,
+  meetsRequirements,
+  unmetRequirements,
+  type RequirementCheck,
+} from "./requirements.ts";
+import {
+  compareWithEquipped,
+  type Comparison,
+  type StatDelta,
+} from "./compare.ts";
+import CharacterSheet from "./CharacterSheet.tsx";
+import CharacterRoster from "./CharacterRoster.tsx";
+import {
+  characterIdFromDrop,
+  createCharacter,
+  transferItem,
+} from "./characters.ts";
+import {
+  STASH_ID,
+  STORAGE_ID,
+  containerDropId,
+  containerIdFromDrop,
+  containerOf,
+  contentsOf,
+  detach,
+  isContainer,
+  moveToContainer,
+  removeItem,
+  spill,
+  wouldCycle,
+} from "./containers.ts";
+import { applyLoadout, createLoadout } from "./loadouts.ts";
+import LoadoutPanel from "./LoadoutPanel.tsx";
+import CraftingPanel from "./CraftingPanel.tsx";
+import { craft, type Recipe } from "./crafting.ts";
+import {
+  setModifiers,
+  setStatus,
+  type ItemSet,
+  type SetStatus,
+} from "./sets.ts";
+import ItemEditor from "./ItemEditor.tsx";
+import ItemMenu, { type ItemAction } from "./ItemMenu.tsx";
+import StorageToolbar from "./StorageToolbar.tsx";
+import {
+  DEFAULT_VIEW,
+  matchesView,
+  sortStorage,
+  statKeys,
+  type StorageView,
+} from "./storageView.ts";
+import CatalogPanel from "./CatalogPanel.tsx";
+import SetEditor from "./SetEditor.tsx";
+import LootDialog from "./LootDialog.tsx";
+import VendorPanel from "./VendorPanel.tsx";
+import {
+  DEFAULT_DENOMINATIONS,
+  formatDenominations,
+  formatMoney,
+  parseDenominations,
+  parseMoney,
+  type Denomination,
+} from "./currency.ts";
+import {
+  DEFAULT_VENDOR,
+  VENDOR_ID,
+  buyPrice,
+  hasValue,
+  logTransaction,
+  sellPrice,
+  type Vendor,
+} from "./vendor.ts";
+import { RARITY_LABELS, rarityOf, type Rarity } from "./rarity.ts";
+import {
+  DEFAULT_WEAR,
+  durabilityRatio,
+  hasDurability,
+  isBroken,
+  isDamaged,
+  repair,
+  repairCost,
+  wear,
+} from "./durability.ts";
+import {
+  canSocket,
+  effectiveStats,
+  freeSockets,
+  hostIdFromDrop,
+  insertGem,
+  isGem,
+  removeGem,
+  socketDropId,
+  socketedGems,
+} from "./sockets.ts";
+import {
+  downloadCatalog,
+  mergeCatalog,
+  parseCatalog,
+  spawnItem,
+  templateFromItem,
+} from "./catalog.ts";
+import {
+  SAVE_VERSION,
+  downloadSave,
+  parseSave,
+  type SaveFile,
+} from "./saveFormat.ts";
+import { usePersistence } from "./usePersistence.ts";
+import {
+  emptyHistory,
+  loadHistory,
+  record,
+  redo,
+  saveHistory,
+  undo,
+  type History,
+} from "./history.ts";
+import {
+  CELL_SIZE,
+  STORAGE_GRID,
+  autoPack,
+  cellAt,
+  fits,
+  footprint,
+  itemAt,
+  placeAll,
+} from "./grid.ts";
+import {
+  canMerge,
+  maxStackOf,
+  mergeStacks,
+  quantityOf,
+  splitStack,
+} from "./stacks.ts";
+import {
+  ENCUMBRANCE_EFFECTS,
+  ENCUMBRANCE_LABELS,
+  capacityOf,
+  carriedWeight,
+  containerWeight,
+  encumbrance,
+  fitsContainer,
+  formatWeight,
+  itemWeight,
+  storageWeight,
+} from "./weight.ts";
+
+type Position = { x: number; y: number };
+type HoverHandler = (item: Item | null, position?: Position) => void;
 
-type Stats = Record<string, string | number>;
-type Item = {
-  id: string;
-  name: string;
-  icon?: string;
-  description?: string;
-  stats: Stats;
+// Keyboard drags have no pointer, so fall back to the nearest droppable.
+// Sockets only take gems, and take them before the slot or storage below.
+const detectCollisions: CollisionDetection = (args) => {
+  const gem = args.active.data.current?.gem === true;
+  const scoped = {
+    ...args,
+    droppableContainers: args.droppableContainers.filter(
+      (c) => gem || hostIdFromDrop(String(c.id)) === null
+    ),
+  };
+  if (!scoped.pointerCoordinates) return closestCenter(scoped);
+  const collisions = pointerWithin(scoped);
+  const isSocket = (id: string | number) => hostIdFromDrop(String(id)) !== null;
+  return [
+    ...collisions.filter((c) => isSocket(c.id)),
+    ...collisions.filter((c) => !isSocket(c.id)),
+  ];
 };
-type SlotsState = Record<string, string | null>;
-
-const SLOT_IDS = ["head", "body", "mainHand", "offHand", "legs"] as const;
-const SLOT_LABELS: Record<(typeof SLOT_IDS)[number], string> = {
-  head: "Head",
-  body: "Body",
-  mainHand: "Main Hand",
-  offHand: "Off-Hand",
-  legs: "Legs",
+
+// Shows the tooltip at the pointer on hover and beside the item on focus
+function hoverProps(item: Item, onHover: HoverHandler) {
+  return {
+    onMouseEnter: (e: React.MouseEvent) =>
+      onHover(item, { x: e.clientX, y: e.clientY }),
+    onMouseMove: (e: React.MouseEvent) =>
+      onHover(item, { x: e.clientX, y: e.clientY }),
+    onMouseLeave: () => onHover(null),
+    onFocus: (e: React.FocusEvent<HTMLElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      onHover(item, { x: rect.right, y: rect.top });
+    },
+    onBlur: () => onHover(null),
+  };
+}
+
+// Item tile background and tooltip heading colour for each rarity
+const RARITY_CLASSES: Record<Rarity, { tile: string; text: string }> = {
+  common: { tile: "bg-indigo-600", text: "text-indigo-700" },
+  uncommon: { tile: "bg-green-600", text: "text-green-700" },
+  rare: { tile: "bg-blue-600", text: "text-blue-700" },
+  epic: { tile: "bg-purple-600", text: "text-purple-700" },
+  legendary: {
+    tile: "bg-amber-500 ring-2 ring-amber-300",
+    text: "text-amber-600",
+  },
 };
-const isSlotId = (id: string): id is (typeof SLOT_IDS)[number] =>
-  (SLOT_IDS as readonly string[]).includes(id);
+
+// Higher is better: gains are green, losses red
+function DeltaValue({ delta }: { delta: StatDelta }) {
+  if (delta.delta === null) {
+    return (
+      <span className="text-gray-500">
+        {delta.current ?? "–"} → {delta.candidate ?? "–"}
+      </span>
+    );
+  }
+  const n = delta.delta;
+  return (
+    <span
+      className={
+        n > 0 ? "text-green-600" : n < 0 ? "text-red-600" : "text-gray-400"
+      }
+    >
+      {n > 0 ? `+${n}` : n}
+    </span>
+  );
+}
+
+function ComparisonTable({ comparison }: { comparison: Comparison }) {
+  const { slot, replaced, stats, totals } = comparison;
+  return (
+    <div className="mt-2 pt-2 border-t">
+      <div className="text-xs font-semibold text-gray-600 mb-1">
+        vs{" "}
+        {replaced.length > 0
+          ? replaced.map((i) => i.name).join(" + ")
+          : "empty slot"}{" "}
+        · {SLOT_LABELS[slot]}
+      </div>
+      {stats.length > 0 && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-normal">Stat</th>
+              <th className="text-right font-normal">This</th>
+              <th className="text-right font-normal">Equipped</th>
+              <th className="text-right font-normal">Δ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((d) => (
+              <tr key={d.key}>
+                <td>{d.key}</td>
+                <td className="text-right">{d.candidate ?? "–"}</td>
+                <td className="text-right">{d.current ?? "–"}</td>
+                <td className="text-right">
+                  {d.delta !== null && <DeltaValue delta={d} />}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {totals.length > 0 && (
+        <div className="text-xs mt-1">
+          Totals:{" "}
+          {totals.map((d, i) => (
+            <span key={d.key}>
+              {i > 0 && ", "}
+              {d.key} <DeltaValue delta={d} />
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
 // ---------------- Tooltip Component ----------------
+// "attack +2, element fire", for gems and set bonuses
+const formatStats = (stats: Stats) =>
+  Object.entries(stats)
+    .map(([k, v]) => `${k} ${typeof v === "number" && v > 0 ? "+" : ""}${v}`)
+    .join(", ");
+
 function HoverTooltip({
   item,
   position,
+  comparisons = [],
+  pinned = false,
+  itemSet = null,
+  requirements = [],
+  denominations,
 }: {
   item: Item;
-  position: { x: number; y: number };
+  position: Position;
+  denominations: Denomination[];
+  // Against whatever the item would replace, for unequipped items
+  comparisons?: Comparison[];
+  pinned?: boolean;
+  itemSet?: SetStatus | null;
+  // For the active character; unmet ones are shown in red
+  requirements?: RequirementCheck[];
 }) {
+  const stats = effectiveStats(item);
   return (
     <div
+      role="tooltip"
       className="
         fixed
         z-[99999]             /* sit above absolutely everything */
@@ -58,18 +364,74 @@ function HoverTooltip({
       "
       style={{
         top: position.y + 12,
-        left: position.x + 12,
+        // Keep clear of the right edge on narrow screens
+        left: Math.max(0, Math.min(position.x + 12, window.innerWidth - 360)),
       }}
     >
-      <div className="font-bold mb-1 text-indigo-700">
+      <div className={`font-bold mb-1 ${RARITY_CLASSES[rarityOf(item)].text}`}>
         {item.icon ?? "🎲"} {item.name}
       </div>
 
+      {item.rarity && (
+        <div className="text-xs text-gray-500 mb-1">
+          {RARITY_LABELS[item.rarity]}
+          {item.affixes && ` · ${item.affixes.join(", ")}`}
+        </div>
+      )}
+
+      {item.category && (
+        <div className="text-xs text-gray-500 mb-1">
+          {CATEGORY_LABELS[item.category]}
+        </div>
+      )}
+
+      {maxStackOf(item) > 1 && (
+        <div className="text-xs text-gray-500 mb-1">
+          Stack: {quantityOf(item)} / {maxStackOf(item)}
+        </div>
+      )}
+
+      {item.durability && (
+        <div
+          className={`text-xs mb-1 ${
+            isBroken(item) ? "text-red-600 font-semibold" : "text-gray-500"
+          }`}
+        >
+          Durability: {item.durability.current} / {item.durability.max}
+          {isBroken(item) && " · Broken, adds no stats"}
+        </div>
+      )}
+
+      {hasValue(item) && (
+        <div className="text-xs text-gray-500 mb-1">
+          Value: {formatMoney(item.value!, denominations)}
+          {quantityOf(item) > 1 && " each"}
+        </div>
+      )}
+
+      {item.weight !== undefined && (
+        <div className="text-xs text-gray-500 mb-1">
+          Weight: {formatWeight(itemWeight(item))}
+        </div>
+      )}
+
+      {requirements.length > 0 && (
+        <div className="text-xs mb-1">
+          Requires{" "}
+          {requirements.map((r, i) => (
+            <span key={i} className={r.met ? "text-gray-500" : "text-red-600"}>
+              {i > 0 && ", "}
+              {r.label}
+            </span>
+          ))}
+        </div>
+      )}
+
       {item.description && <p className="mb-1 break-words">{item.description}</p>}
 
-      {Object.keys(item.stats).length > 0 && (
+      {Object.keys(stats).length > 0 && (
         <ul className="list-disc ml-4">
-          {Object.entries(item.stats).map(([k, v]) => (
+          {Object.entries(stats).map(([k, v]) => (
             <li key={k}>
               {k}: {v as string | number}
             </li>
@@ -77,59 +439,212 @@ function HoverTooltip({
         </ul>
       )}
 
-      {Object.keys(item.stats).length === 0 && !item.description && (
+      {Object.keys(stats).length === 0 && !item.description && (
         <p className="text-gray-500">No description or stats</p>
       )}
+
+      {(item.sockets ?? 0) > 0 && (
+        <ul className="text-xs mt-1">
+          {socketedGems(item).map((gem, i) => (
+            <li key={i}>
+              ◆ {gem.icon ?? "💎"} {gem.name}
+              {Object.keys(gem.stats).length > 0 &&
+                ` (${formatStats(gem.stats)})`}
+            </li>
+          ))}
+          {Array.from({ length: freeSockets(item) }, (_, i) => (
+            <li key={`empty-${i}`} className="text-gray-500">
+              ◇ Empty socket
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {itemSet && (
+        <div className="text-xs mt-1">
+          <div className="font-semibold">
+            {itemSet.set.name} ({itemSet.pieces}/{itemSet.members.length})
+          </div>
+          <ul>
+            {itemSet.members.map((m, i) => (
+              <li
+                key={i}
+                className={m.equipped ? "text-gray-800" : "text-gray-400"}
+              >
+                {m.equipped ? "✓" : "·"} {m.name}
+              </li>
+            ))}
+          </ul>
+          <ul>
+            {itemSet.bonuses.map(({ bonus, active }, i) => (
+              <li
+                key={i}
+                className={active ? "text-green-700" : "text-gray-400"}
+              >
+                {bonus.pieces} pieces: {formatStats(bonus.stats)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {comparisons.map((c) => (
+        <ComparisonTable key={c.slot} comparison={c} />
+      ))}
+      {comparisons.length > 0 && (
+        <p className="text-[10px] text-gray-400 mt-1">
+          {pinned ? "Pinned" : "Hold Shift to pin"}
+        </p>
+      )}
     </div>
   );
 }
 
 
 
+// Numbers menu entries that would still read the same, like gifts to two
+// characters with one name
+function numberRepeats(actions: ItemAction[]): ItemAction[] {
+  const seen = new Map<string, number>();
+  return actions.map((action) => {
+    const count = (seen.get(action.label) ?? 0) + 1;
+    seen.set(action.label, count);
+    const repeated = actions.filter((a) => a.label === action.label).length;
+    return repeated > 1
+      ? { ...action, label: `${action.label} (${count})` }
+      : action;
+  });
+}
+
+const stackLabel = (item: Item) =>
+  quantityOf(item) > 1 ? `${item.name}, ${quantityOf(item)}` : item.name;
+
+function StackBadge({ item }: { item: Item }) {
+  if (quantityOf(item) <= 1) return null;
+  return (
+    <span className="absolute bottom-0 right-0 px-1 rounded bg-gray-900 text-white text-[10px] leading-tight">
+      {quantityOf(item)}
+    </span>
+  );
+}
+
+// Thin bar along the bottom of a tile; broken items show an empty red bar
+function DurabilityBar({ item }: { item: Item }) {
+  if (!hasDurability(item)) return null;
+  const ratio = durabilityRatio(item);
+  const colour =
+    ratio > 0.5
+      ? "bg-green-400"
+      : ratio > 0.2
+        ? "bg-yellow-400"
+        : "bg-red-500";
+  return (
+    <span className="absolute bottom-0 left-0 right-0 h-1 bg-black/30 rounded-b overflow-hidden">
+      <span
+        className={`block h-full ${colour}`}
+        style={{ width: `${ratio * 100}%` }}
+      />
+    </span>
+  );
+}
+
+const brokenClass = (item: Item) =>
+  isBroken(item) ? "opacity-60 grayscale" : "";
+
+// Lets gems be dropped onto `item` while it has a free socket
+function useSocketTarget(item: Item) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: socketDropId(item.id),
+    disabled: freeSockets(item) <= 0,
+  });
+  return {
+    setSocketRef: setNodeRef,
+    socketClass: isOver ? "ring-4 ring-amber-300" : "",
+  };
+}
+
 // ---------- Item wrappers with hover tracking ----------
 function EquipmentItem({
   item,
+  unusable = false,
+  actions,
+  onEdit,
   onHover,
 }: {
   item: Item;
-  onHover: (item: Item | null, e?: React.MouseEvent) => void;
+  // Equipped by a character who no longer meets its requirements
+  unusable?: boolean;
+  actions: ItemAction[];
+  onEdit: () => void;
+  onHover: HoverHandler;
 }) {
   const { attributes, listeners, setNodeRef, transform } = useDraggable({
     id: item.id,
+    data: { gem: isGem(item) },
   });
+  const { setSocketRef, socketClass } = useSocketTarget(item);
   const style = transform
     ? { transform: `translate(${transform.x}px, ${transform.y}px)` }
     : undefined;
 
   return (
-    <div
-      ref={setNodeRef}
-      style={style}
-      {...listeners}
-      {...attributes}
-      onMouseEnter={(e) => onHover(item, e)}
-      onMouseMove={(e) => onHover(item, e)}
-      onMouseLeave={() => onHover(null)}
-      className="cursor-move p-2 rounded bg-indigo-600 text-white text-center select-none"
-    >
-      {item.icon ?? "🎲"}
-      <br />
-      {item.name}
+    <div className="relative">
+      <div
+        ref={(node) => {
+          setNodeRef(node);
+          setSocketRef(node);
+        }}
+        style={style}
+        {...listeners}
+        {...attributes}
+        aria-label={item.name}
+        onDoubleClick={onEdit}
+        {...hoverProps(item, onHover)}
+        title="Double-click to edit"
+        className={`relative cursor-move touch-manipulation p-2 rounded ${
+          RARITY_CLASSES[rarityOf(item)].tile
+        } ${brokenClass(item)} ${socketClass} ${
+          unusable ? "outline-2 outline-red-500" : ""
+        } text-white text-center select-none`}
+      >
+        {item.icon ?? "🎲"}
+        <br />
+        {item.name}
+        <DurabilityBar item={item} />
+      </div>
+      <ItemMenu
+        itemName={item.name}
+        actions={actions}
+        className="absolute -top-2 -right-2 bg-white rounded-full"
+      />
     </div>
   );
 }
 
 function StorageItem({
   item,
+  actions,
+  open = false,
+  onToggleOpen,
+  onEdit,
   onDelete,
+  onSplit,
   onHover,
 }: {
   item: Item;
+  actions: ItemAction[];
+  // Whether a bag's contents are shown; bags alone get onToggleOpen
+  open?: boolean;
+  onToggleOpen?: () => void;
+  // Party stash items can't be edited or split in place
+  onEdit?: () => void;
   onDelete: () => void;
-  onHover: (item: Item | null, e?: React.MouseEvent) => void;
+  onSplit?: () => void;
+  onHover: HoverHandler;
 }) {
   const { attributes, listeners, setNodeRef, transform, transition } =
-    useSortable({ id: item.id });
+    useSortable({ id: item.id, data: { gem: isGem(item) } });
+  const { setSocketRef, socketClass } = useSocketTarget(item);
   const style: React.CSSProperties = {
     transform: transform
       ? `translate(${transform.x}px, ${transform.y}px)`
@@ -139,36 +654,98 @@ function StorageItem({
   return (
     <div className="mb-2 flex items-center justify-between">
       <div
-        ref={setNodeRef}
+        ref={(node) => {
+          setNodeRef(node);
+          setSocketRef(node);
+        }}
         style={style}
         {...listeners}
         {...attributes}
-        onMouseEnter={(e) => onHover(item, e)}
-        onMouseMove={(e) => onHover(item, e)}
-        onMouseLeave={() => onHover(null)}
-        className="cursor-move p-2 rounded bg-indigo-600 text-white text-center select-none"
+        aria-label={stackLabel(item)}
+        {...hoverProps(item, onHover)}
+        onDoubleClick={onEdit}
+        className={`relative cursor-move touch-manipulation p-2 rounded ${
+          RARITY_CLASSES[rarityOf(item)].tile
+        } ${brokenClass(item)} ${socketClass} text-white text-center select-none`}
       >
         {item.icon ?? "🎲"}
         <br />
         {item.name}
+        <StackBadge item={item} />
+        <DurabilityBar item={item} />
       </div>
-      <button
-        onClick={onDelete}
-        className="text-sm text-red-600 hover:underline ml-3"
-      >
-        Delete
-      </button>
+      <div>
+        <ItemMenu itemName={item.name} actions={actions} />
+        {onToggleOpen && (
+          <button
+            onClick={onToggleOpen}
+            aria-expanded={open}
+            className="text-sm text-indigo-600 hover:underline ml-3"
+          >
+            {open ? "Close" : "Open"}
+          </button>
+        )}
+        {onEdit && (
+          <button
+            onClick={onEdit}
+            className="text-sm text-indigo-600 hover:underline ml-3"
+          >
+            Edit
+          </button>
+        )}
+        {onSplit && quantityOf(item) > 1 && (
+          <button
+            onClick={onSplit}
+            className="text-sm text-indigo-600 hover:underline ml-3"
+          >
+            Split
+          </button>
+        )}
+        <button
+          onClick={onDelete}
+          className="text-sm text-red-600 hover:underline ml-3"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Shown in offHand while a two-handed weapon fills mainHand.
+function BlockedSlotItem({ item }: { item: Item }) {
+  return (
+    <div className="p-2 rounded bg-indigo-300 text-white text-center select-none opacity-60">
+      {item.icon ?? "🎲"}
+      <br />
+      {item.name}
     </div>
   );
 }
 
+// "target"/"rejected" are the valid/invalid states while hovered.
+type SlotHighlight = "idle" | "valid" | "target" | "invalid" | "rejected";
+
+const SLOT_HIGHLIGHT_CLASSES: Record<SlotHighlight, string> = {
+  idle: "border-gray-400 bg-gray-50",
+  valid: "border-green-500 bg-green-50",
+  target: "border-green-600 bg-green-100",
+  invalid: "border-gray-300 bg-gray-100 opacity-50",
+  rejected: "border-red-500 bg-red-50",
+};
+
 function EquipmentSlot({
   id,
   label,
+  occupant,
+  highlight = "idle",
   children,
 }: {
-  id: (typeof SLOT_IDS)[number];
+  id: SlotId;
   label: string;
+  // Name of what fills the slot, for screen readers
+  occupant?: string;
+  highlight?: SlotHighlight;
   children?: React.ReactNode;
 }) {
   const { setNodeRef } = useDroppable({ id });
@@ -176,7 +753,10 @@ function EquipmentSlot({
     <div className="flex flex-col items-center">
       <div
         ref={setNodeRef}
-        className="w-[80px] h-[80px] border-2 border-gray-400 rounded bg-gray-50 flex items-center justify-center"
+        tabIndex={0}
+        role="group"
+        aria-label={`${label} slot, ${occupant ?? "empty"}`}
+        className={`w-16 h-16 sm:w-[80px] sm:h-[80px] text-xs sm:text-base border-2 rounded flex items-center justify-center ${SLOT_HIGHLIGHT_CLASSES[highlight]}`}
       >
         {children}
       </div>
@@ -185,12 +765,136 @@ function EquipmentSlot({
   );
 }
 
-function StorageContainer({ children }: { children: React.ReactNode }) {
-  const { setNodeRef } = useDroppable({ id: "storage" });
+function GridStorageItem({
+  item,
+  x,
+  y,
+  dimmed = false,
+  actions,
+  open = false,
+  onToggleOpen,
+  onEdit,
+  onDelete,
+  onSplit,
+  onHover,
+}: {
+  item: Item;
+  x: number;
+  y: number;
+  // Drawn faded when the storage filters exclude it
+  dimmed?: boolean;
+  actions: ItemAction[];
+  open?: boolean;
+  onToggleOpen?: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onSplit: () => void;
+  onHover: HoverHandler;
+}) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } =
+    useDraggable({ id: item.id, data: { gem: isGem(item) } });
+  const { setSocketRef, socketClass } = useSocketTarget(item);
+  const { w, h } = footprint(item);
+  const style: React.CSSProperties = {
+    left: x * CELL_SIZE,
+    top: y * CELL_SIZE,
+    width: w * CELL_SIZE,
+    height: h * CELL_SIZE,
+    transform: transform
+      ? `translate(${transform.x}px, ${transform.y}px)`
+      : undefined,
+    zIndex: isDragging ? 10 : undefined,
+    opacity: dimmed ? 0.3 : undefined,
+  };
+  return (
+    <div className="absolute p-0.5" style={style}>
+      <div
+        ref={(node) => {
+          setNodeRef(node);
+          setSocketRef(node);
+        }}
+        {...listeners}
+        {...attributes}
+        aria-label={stackLabel(item)}
+        {...hoverProps(item, onHover)}
+        onDoubleClick={onEdit}
+        title="Double-click to edit"
+        className={`relative cursor-move touch-manipulation w-full h-full rounded ${
+          RARITY_CLASSES[rarityOf(item)].tile
+        } ${brokenClass(item)} ${socketClass} text-white text-xs text-center select-none flex flex-col items-center justify-center overflow-hidden`}
+      >
+        <span className="text-lg">{item.icon ?? "🎲"}</span>
+        {item.name}
+        <StackBadge item={item} />
+        <DurabilityBar item={item} />
+      </div>
+      <button
+        onClick={onDelete}
+        title="Delete"
+        className="absolute top-0 right-0 p-0 w-4 h-4 leading-none text-[10px] bg-red-600 text-white rounded-full"
+      >
+        ×
+      </button>
+      {quantityOf(item) > 1 && (
+        <button
+          onClick={onSplit}
+          title="Split stack"
+          className="absolute top-0 left-0 p-0 w-4 h-4 leading-none text-[10px] bg-gray-700 text-white rounded-full"
+        >
+          ½
+        </button>
+      )}
+      {onToggleOpen && (
+        <button
+          onClick={onToggleOpen}
+          title={open ? "Close" : "Open"}
+          aria-expanded={open}
+          className="absolute top-0 left-0 p-0 w-4 h-4 leading-none text-[10px] bg-amber-600 text-white rounded-full"
+        >
+          {open ? "−" : "+"}
+        </button>
+      )}
+      <ItemMenu
+        itemName={item.name}
+        actions={actions}
+        className="absolute bottom-0 left-0 bg-white rounded-full"
+      />
+    </div>
+  );
+}
+
+function StorageGrid({ children }: { children: React.ReactNode }) {
+  const { setNodeRef } = useDroppable({ id: STORAGE_ID });
+  return (
+    <div
+      ref={setNodeRef}
+      className="relative border-2 border-dashed rounded bg-white"
+      style={{
+        width: STORAGE_GRID.cols * CELL_SIZE + 4,
+        height: STORAGE_GRID.rows * CELL_SIZE + 4,
+        backgroundImage:
+          "linear-gradient(to right, #e5e7eb 1px, transparent 1px), linear-gradient(to bottom, #e5e7eb 1px, transparent 1px)",
+        backgroundSize: `${CELL_SIZE}px ${CELL_SIZE}px`,
+      }}
+    >
+      {children}
+    </div>
+  );
+}
+
+// A list drop zone: the character's storage, an open bag or the stash
+function StorageContainer({
+  id = STORAGE_ID,
+  children,
+}: {
+  id?: string;
+  children: React.ReactNode;
+}) {
+  const { setNodeRef } = useDroppable({ id });
   return (
     <div
       ref={setNodeRef}
-      className="border-2 border-dashed rounded p-4 bg-white max-w-lg min-h-[120px] flex flex-col"
+      className="border-2 border-dashed rounded p-2 sm:p-4 bg-white w-full max-w-lg min-h-[120px] flex flex-col"
     >
       {children}
     </div>
@@ -199,258 +903,1789 @@ function StorageContainer({ children }: { children: React.ReactNode }) {
 
 // ---------------- Main App ----------------
 export default function App() {
-  const LS_KEY = "rpg.inventory.tooltip-hover";
-
-  const [items, setItems] = useState<Item[]>([]);
-  const [storageOrder, setStorageOrder] = useState<string[]>([]);
-  const [slots, setSlots] = useState<SlotsState>({
-    head: null,
-    body: null,
-    mainHand: null,
-    offHand: null,
-    legs: null,
-  });
+  // Each character owns its items, storage and equipment
+  const [characters, setCharacters] = useState<Character[]>(() => [
+    createCharacter("Adventurer"),
+  ]);
+  const [activeCharacterId, setActiveCharacterId] = useState(
+    () => characters[0].id
+  );
+  const activeCharacter =
+    characters.find((c) => c.id === activeCharacterId) ?? characters[0];
+  const { items, storageOrder, slots, gridPositions } = activeCharacter;
+
+  // Grid mode places storage items by cell; storageOrder still decides
+  // membership and the order used by the list view.
+  const [storageMode, setStorageMode] = useState<"list" | "grid">("list");
+  // Search, filters and sort only change what is shown, never storageOrder
+  const [storageView, setStorageView] = useState<StorageView>(DEFAULT_VIEW);
+  const sortActive = storageMode === "list" && storageView.sort !== "manual";
+
+  // State setters scoped to the active character
+  function characterSetter<
+    K extends "items" | "storageOrder" | "slots" | "gridPositions" | "loadouts",
+  >(key: K) {
+    return (update: SetStateAction<Character[K]>) =>
+      setCharacters((prev) =>
+        prev.map((c) =>
+          c.id === activeCharacter.id
+            ? {
+                ...c,
+                [key]:
+                  typeof update === "function"
+                    ? (update as (prev: Character[K]) => Character[K])(c[key])
+                    : update,
+              }
+            : c
+        )
+      );
+  }
+  const setItems = characterSetter("items");
+  const setStorageOrder = characterSetter("storageOrder");
+  const setSlots = characterSetter("slots");
+  const setGridPositions = characterSetter("gridPositions");
+  const setLoadouts = characterSetter("loadouts");
+
+  // For changes spanning several fields, e.g. moving between bags
+  function updateActive(update: (character: Character) => Character) {
+    setCharacters((prev) =>
+      prev.map((c) => (c.id === activeCharacter.id ? update(c) : c))
+    );
+  }
+
+  // Shared by the whole party; any character can stash or take items
+  const [stash, setStash] = useState<Character>(() =>
+    createCharacter("Party stash")
+  );
+  // Bags whose contents are shown, in the order they were opened
+  const [openBags, setOpenBags] = useState<string[]>([]);
+
+  const findItem = (id: string) =>
+    items.find((i) => i.id === id) ?? stash.items.find((i) => i.id === id);
+
+  // Item templates shared by every character
+  const [catalog, setCatalog] = useState<ItemTemplate[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [sets, setSets] = useState<ItemSet[]>([]);
+
+  // Loot generator dialog
+  const [lootOpen, setLootOpen] = useState(false);
+
+  // Level, class and attributes dialog
+  const [progressOpen, setProgressOpen] = useState(false);
+
+  // Coins, and the shop that sells catalog templates for them
+  const [denominations, setDenominations] = useState<Denomination[]>(
+    DEFAULT_DENOMINATIONS
+  );
+  const [vendor, setVendor] = useState<Vendor>(DEFAULT_VENDOR);
+  const [vendorOpen, setVendorOpen] = useState(false);
+  const wallet = activeCharacter.wallet ?? 0;
+  const money = (amount: number) => formatMoney(amount, denominations);
+
+  // Message shown above the inventory, e.g. after a partial loadout swap
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Item set editor dialog; `set` is missing when creating a new one
+  const [editingSet, setEditingSet] = useState<{ set?: ItemSet } | null>(
+    null
+  );
+
+  // Item editor dialog; `item` is missing when creating a new one
+  const [editing, setEditing] = useState<{
+    item?: Item;
+    template?: boolean;
+  } | null>(null);
+
+  // A short travel before a mouse drag starts keeps clicks and
+  // double-clicks on items working; touch drags need a brief hold so
+  // swiping still scrolls storage.
+  const sensors = useSensors(
+    useSensor(MouseSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, {
+      activationConstraint: { delay: 250, tolerance: 5 },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
 
-  // New item form
-  const [newName, setNewName] = useState("");
-  const [newIcon, setNewIcon] = useState("");
-  const [newDesc, setNewDesc] = useState("");
-  const [newStats, setNewStats] = useState("");
+  // Item being dragged, used to highlight the slots it may go into
+  const [dragItem, setDragItem] = useState<Item | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
 
   // Tooltip state
   const [hoverItem, setHoverItem] = useState<Item | null>(null);
-  const [tooltipPos, setTooltipPos] = useState<{ x: number; y: number }>({
-    x: 0,
-    y: 0,
-  });
+  const [tooltipPos, setTooltipPos] = useState<Position>({ x: 0, y: 0 });
+  // While Shift is held the tooltip stays put so it can be read at leisure
+  const [tooltipPinned, setTooltipPinned] = useState(false);
 
-  // Load & Save
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (raw) {
-        const parsed = JSON.parse(raw);
-        setItems(parsed.items ?? []);
-        setStorageOrder(parsed.storageOrder ?? []);
-        setSlots((prev) => ({ ...prev, ...(parsed.slots ?? {}) }));
-      }
-    } catch {}
+    const onKey = (e: KeyboardEvent) => setTooltipPinned(e.shiftKey);
+    const unpin = () => setTooltipPinned(false);
+    window.addEventListener("keydown", onKey);
+    window.addEventListener("keyup", onKey);
+    window.addEventListener("blur", unpin);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener("keyup", onKey);
+      window.removeEventListener("blur", unpin);
+    };
   }, []);
 
-  useEffect(() => {
-    localStorage.setItem(
-      LS_KEY,
-      JSON.stringify({ items, storageOrder, slots })
-    );
-  }, [items, storageOrder, slots]);
+  // Read out by a polite live region after keyboard and menu actions
+  const [announcement, setAnnouncement] = useState("");
 
-  // Add/Delete
-  function addItem() {
-    if (!newName.trim()) return;
-    const stats: Stats = {};
-    newStats.split(",").forEach((pair) => {
-      const [k, v] = pair.split("=").map((s) => s.trim());
-      if (k) stats[k] = isNaN(Number(v)) ? v : Number(v);
-    });
-    const id = crypto.randomUUID();
-    const newItem: Item = {
-      id,
-      name: newName.trim(),
-      icon: newIcon || undefined,
-      description: newDesc || "",
-      stats,
-    };
-    setItems((prev) => [...prev, newItem]);
-    setStorageOrder((prev) => [...prev, id]);
-    setNewName("");
-    setNewIcon("");
-    setNewDesc("");
-    setNewStats("");
-  }
+  // Undo/redo over whole-roster snapshots
+  const [history, setHistory] = useState<History>(loadHistory);
 
-  function deleteItem(id: string) {
-    setItems((prev) => prev.filter((i) => i.id !== id));
-    setStorageOrder((prev) => prev.filter((x) => x !== id));
-    setSlots((prev) => {
-      const next = { ...prev };
-      for (const k of SLOT_IDS) if (next[k] === id) next[k] = null;
-      return next;
-    });
+  useEffect(() => saveHistory(history), [history]);
+
+  // Call right before changing the roster so the change can be undone
+  function remember(label: string) {
+    setHistory((prev) =>
+      record(prev, { label, characters, stash, vendorLog: vendor.log })
+    );
   }
 
-  // Drag & Drop
-  function unequip(itemId: string) {
-    setSlots((prev) => {
-      const next = { ...prev };
-      for (const k of SLOT_IDS) if (next[k] === itemId) next[k] = null;
-      return next;
+  function stepHistory(step: typeof undo) {
+    const result = step(history, {
+      characters,
+      stash,
+      vendorLog: vendor.log,
     });
+    if (!result) return;
+    const { snapshot } = result;
+    setCharacters(snapshot.characters);
+    setStash(snapshot.stash);
+    setVendor((prev) => ({ ...prev, log: snapshot.vendorLog }));
+    setHistory(result.history);
   }
 
-  function handleDragEnd(event: any) {
-    const activeId = event?.active?.id as string;
-    const overId = event?.over?.id as string;
-    if (!activeId || !overId) return;
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, select")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) stepHistory(undo);
+      else if ((key === "z" && e.shiftKey) || key === "y") stepHistory(redo);
+      else return;
+      e.preventDefault();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
-    const inStorageActive = storageOrder.includes(activeId);
-    const inStorageOver = storageOrder.includes(overId);
+  // Load & Save
+  function applySave(save: SaveFile) {
+    setCharacters(save.characters);
+    setActiveCharacterId(
+      save.characters.some((c) => c.id === save.activeCharacterId)
+        ? save.activeCharacterId
+        : save.characters[0].id
+    );
+    setStorageMode(save.storageMode);
+    setCatalog(save.catalog);
+    setRecipes(save.recipes);
+    setSets(save.sets);
+    setDenominations(save.denominations);
+    setVendor(save.vendor);
+    setStash(save.stash);
+  }
 
-    if (inStorageActive && inStorageOver) {
-      const oldIndex = storageOrder.indexOf(activeId);
-      const newIndex = storageOrder.indexOf(overId);
-      if (oldIndex !== newIndex) {
-        setStorageOrder((prev) => arrayMove(prev, oldIndex, newIndex));
+  const currentSave = useMemo(
+    (): SaveFile => ({
+      version: SAVE_VERSION,
+      storageMode,
+      activeCharacterId,
+      catalog,
+      recipes,
+      sets,
+      stash,
+      denominations,
+      vendor,
+      characters: characters.map((c) => ({
+        ...c,
+        gridPositions: placeAll(c.storageOrder, c.gridPositions, c.items)
+          .positions,
+      })),
+    }),
+    [
+      characters,
+      activeCharacterId,
+      storageMode,
+      catalog,
+      recipes,
+      sets,
+      stash,
+      denominations,
+      vendor,
+    ]
+  );
+  usePersistence(
+    currentSave,
+    (save, remote) => {
+      if (!remote) {
+        applySave(save);
+        return;
       }
-      return;
-    }
+      // Snapshots from before another tab's edit would undo that edit too
+      const edited = (["characters", "stash", "vendor"] as const).some(
+        (key) => JSON.stringify(save[key]) !== JSON.stringify(currentSave[key])
+      );
+      if (edited) setHistory(emptyHistory());
+      // Which character and view are up is this tab's own choice
+      applySave({ ...save, activeCharacterId, storageMode });
+    },
+    setNotice
+  );
 
-    if (overId === "storage") {
-      unequip(activeId);
-      if (!inStorageActive) setStorageOrder((prev) => [...prev, activeId]);
-      return;
+  // Export & Import
+  async function importSave(file: File) {
+    try {
+      const save = parseSave(await file.text());
+      if (!confirm(`Replace your whole inventory with ${file.name}?`)) return;
+      remember(`Import ${file.name}`);
+      applySave(save);
+      setNotice(null);
+    } catch (err) {
+      setNotice(
+        `Could not import ${file.name}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
     }
+  }
 
-    if (isSlotId(overId)) {
-      setSlots((prev) => {
-        const next = { ...prev };
-        const replaced = next[overId];
-        if (replaced && !storageOrder.includes(replaced)) {
-          setStorageOrder((prev) => [...prev, replaced]);
-        }
-        for (const k of SLOT_IDS) if (next[k] === activeId) next[k] = null;
-        next[overId] = activeId;
-        return next;
-      });
-      if (inStorageActive) {
-        setStorageOrder((prev) => prev.filter((x) => x !== activeId));
-      }
-    }
+  // Catalog
+  function saveTemplate(item: Item) {
+    setEditing(null);
+    const template = templateFromItem(item);
+    setCatalog((prev) => mergeCatalog(prev, [template]));
   }
 
-  // Tooltip handlers
-  function handleHover(item: Item | null, e?: React.MouseEvent) {
+  function deleteTemplate(template: ItemTemplate) {
+    if (!confirm(`Remove ${template.name} from the catalog?`)) return;
+    setCatalog((prev) => prev.filter((t) => t.id !== template.id));
+  }
+
+  function saveSet(set: ItemSet) {
+    setEditingSet(null);
+    setSets((prev) => mergeCatalog(prev, [set]));
+  }
+
+  function deleteSet(set: ItemSet) {
+    if (!confirm(`Remove the ${set.name} set? Its items stay.`)) return;
+    setSets((prev) => prev.filter((s) => s.id !== set.id));
+  }
+
+  function spawnFromTemplate(template: ItemTemplate) {
+    const item = spawnItem(template);
+    if (
+      !checkCapacity(activeCharacter, STORAGE_ID, [item.id], {
+        source: { ...activeCharacter, items: [item] },
+      })
+    ) {
+      return;
+    }
+    remember(`Spawn ${item.name}`);
+    setItems((prev) => [...prev, item]);
+    setStorageOrder((prev) => [...prev, item.id]);
+  }
+
+  function addLoot(loot: Item[], seed: string) {
+    if (
+      !checkCapacity(
+        activeCharacter,
+        STORAGE_ID,
+        loot.map((i) => i.id),
+        { source: { ...activeCharacter, items: loot } }
+      )
+    ) {
+      return;
+    }
+    setLootOpen(false);
+    remember(`Generate loot (seed ${seed})`);
+    setItems((prev) => [...prev, ...loot]);
+    setStorageOrder((prev) => [...prev, ...loot.map((i) => i.id)]);
+    setNotice(`Generated ${loot.length} items with seed "${seed}"`);
+  }
+
+  async function importCatalog(file: File) {
+    try {
+      const imported = parseCatalog(await file.text());
+      setCatalog((prev) => mergeCatalog(prev, imported.templates));
+      setRecipes((prev) => mergeCatalog(prev, imported.recipes));
+      setSets((prev) => mergeCatalog(prev, imported.sets));
+      const counts = [
+        `${imported.templates.length} templates`,
+        imported.recipes.length > 0 && `${imported.recipes.length} recipes`,
+        imported.sets.length > 0 && `${imported.sets.length} item sets`,
+      ].filter(Boolean);
+      setNotice(`Imported ${counts.join(", ")} from ${file.name}`);
+    } catch (err) {
+      setNotice(
+        `Could not import ${file.name}: ${
+          err instanceof Error ? err.message : String(err)
+        }`
+      );
+    }
+  }
+
+  // Crafting
+  function craftRecipe(recipe: Recipe) {
+    const result = craft(activeCharacter, recipe, catalog);
+    if (!result) {
+      setNotice(`${activeCharacter.name} can't craft ${recipe.name} right now`);
+      return;
+    }
+    if (
+      !checkCapacity(
+        activeCharacter,
+        STORAGE_ID,
+        result.outputs.map((i) => i.id),
+        { outgoing: result.consumed, source: result.character }
+      )
+    ) {
+      return;
+    }
+    remember(`Craft ${recipe.name}`);
+    updateActive(() => result.character);
+    setNotice(
+      `Crafted ${recipe.name}: ${result.outputs.map((i) => i.name).join(", ")}`
+    );
+  }
+
+  function deleteRecipe(recipe: Recipe) {
+    if (!confirm(`Remove the ${recipe.name} recipe?`)) return;
+    setRecipes((prev) => prev.filter((r) => r.id !== recipe.id));
+  }
+
+  // Roster
+  function addCharacter() {
+    const name = prompt("Name of the new character?")?.trim();
+    if (!name) return;
+    const character = createCharacter(name);
+    remember(`Create ${name}`);
+    setCharacters((prev) => [...prev, character]);
+    setActiveCharacterId(character.id);
+  }
+
+  function renameCharacter() {
+    const name = prompt("Rename character", activeCharacter.name)?.trim();
+    if (!name) return;
+    remember(`Rename ${activeCharacter.name}`);
+    setCharacters((prev) =>
+      prev.map((c) => (c.id === activeCharacter.id ? { ...c, name } : c))
+    );
+  }
+
+  function deleteCharacter() {
+    if (characters.length <= 1) return;
+    if (!confirm(`Delete ${activeCharacter.name} and all of their items?`)) {
+      return;
+    }
+    const remaining = characters.filter((c) => c.id !== activeCharacter.id);
+    remember(`Delete ${activeCharacter.name}`);
+    setCharacters(remaining);
+    setActiveCharacterId(remaining[0].id);
+  }
+
+  // Weight limits; a blank answer removes the limit
+  function promptLimit(key: "carryLimit" | "storageCapacity", label: string) {
+    const answer = prompt(
+      `${label} for ${activeCharacter.name} (blank for no limit)`,
+      activeCharacter[key] === undefined ? "" : String(activeCharacter[key])
+    );
+    if (answer === null) return;
+    const value = answer.trim() === "" ? undefined : Number(answer);
+    if (value !== undefined && !(value >= 0)) return;
+    remember(`Set ${label.toLowerCase()}`);
+    setCharacters((prev) =>
+      prev.map((c) => (c.id === activeCharacter.id ? { ...c, [key]: value } : c))
+    );
+  }
+
+  // Refuses a move that would push a container past its capacity
+  function checkCapacity(
+    character: Character,
+    containerId: string,
+    incoming: string[],
+    options: Parameters<typeof fitsContainer>[3] = {}
+  ) {
+    if (fitsContainer(character, containerId, incoming, options)) return true;
+    const source = options.source ?? character;
+    const names = incoming.map(
+      (id) => source.items.find((i) => i.id === id)?.name
+    );
+    const where =
+      containerId === STORAGE_ID
+        ? `${character.name}'s storage`
+        : character.items.find((i) => i.id === containerId)?.name;
+    setNotice(`${names.join(", ")} won't fit: ${where} is too full`);
+    return false;
+  }
+
+  function giveItem(itemId: string, characterId: string) {
+    const item = items.find((i) => i.id === itemId);
+    const to = characters.find((c) => c.id === characterId);
+    if (!item || !to) return false;
+    if (!checkCapacity(to, STORAGE_ID, [itemId], { source: activeCharacter })) {
+      return false;
+    }
+    remember(`Give ${item.name} to ${to.name}`);
+    setCharacters((prev) => {
+      const from = prev.find((c) => c.id === activeCharacter.id);
+      const to = prev.find((c) => c.id === characterId);
+      const moved = from && to && transferItem(from, to, itemId);
+      if (!moved) return prev;
+      const [nextFrom, nextTo] = moved;
+      return prev.map((c) =>
+        c.id === nextFrom.id ? nextFrom : c.id === nextTo.id ? nextTo : c
+      );
+    });
+    return true;
+  }
+
+  // Moves an item into storage or a bag, before the item at `index`
+  function moveInto(item: Item, containerId: string, index?: number) {
+    if (wouldCycle(activeCharacter, item.id, containerId)) {
+      setNotice(`${item.name} can't go inside itself`);
+      return false;
+    }
+    if (!checkCapacity(activeCharacter, containerId, [item.id])) return false;
+    const moved = moveToContainer(activeCharacter, item.id, containerId, index);
+    if (!moved) return false;
+    const equipped = containerOf(activeCharacter, item.id) === null;
+    remember(`${equipped ? "Unequip" : "Move"} ${item.name}`);
+    updateActive(() => moved);
+    return true;
+  }
+
+  function toggleBag(id: string) {
+    setOpenBags((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  }
+
+  // Party stash
+  function stashItem(itemId: string) {
+    const item = items.find((i) => i.id === itemId);
+    const moved = item && transferItem(activeCharacter, stash, itemId);
+    if (!moved) return false;
+    remember(`Stash ${item.name}`);
+    updateActive(() => moved[0]);
+    setStash(moved[1]);
+    return true;
+  }
+
+  function takeFromStash(itemId: string, containerId = STORAGE_ID) {
+    const item = stash.items.find((i) => i.id === itemId);
+    if (!item) return false;
+    if (!checkCapacity(activeCharacter, containerId, [itemId], { source: stash })) {
+      return false;
+    }
+    const moved = transferItem(stash, activeCharacter, itemId, containerId);
+    if (!moved) return false;
+    remember(`Take ${item.name} from the stash`);
+    setStash(moved[0]);
+    updateActive(() => moved[1]);
+    return true;
+  }
+
+  function deleteFromStash(item: Item) {
+    if (!confirm(`Delete ${item.name} from the party stash?`)) return;
+    remember(`Delete ${item.name}`);
+    setStash((prev) => removeItem(prev, item.id));
+  }
+
+  // Level & attributes
+  function saveProgress(
+    progress: Pick<Character, "level" | "attributes" | "characterClass">
+  ) {
+    setProgressOpen(false);
+    const next = { ...activeCharacter, ...progress };
+    remember(`Edit ${activeCharacter.name}`);
+    updateActive((c) => ({ ...c, ...progress }));
+    // Equipped items stay on, but the sheet flags them until swapped out
+    const invalid = equippedItems(next.slots, next.items).filter(
+      ({ item }) =>
+        meetsRequirements(item, activeCharacter) &&
+        !meetsRequirements(item, next)
+    );
+    if (invalid.length > 0) {
+      setNotice(
+        `${next.name} no longer meets the requirements of ` +
+          invalid.map(({ item }) => item.name).join(", ")
+      );
+    }
+  }
+
+  // Money & vendor
+  function adjustWallet() {
+    const answer = prompt(
+      `Add money to ${activeCharacter.name}'s wallet, e.g. "5 gp" ` +
+        `(or "-3 sp" to take some)`
+    );
+    if (answer === null || answer.trim() === "") return;
+    const amount = parseMoney(answer, denominations);
+    if (amount === null) {
+      setNotice(
+        `"${answer}" isn't an amount of ${formatDenominations(denominations)}`
+      );
+      return;
+    }
+    if (wallet + amount < 0) {
+      setNotice(`${activeCharacter.name} only has ${money(wallet)}`);
+      return;
+    }
+    remember(`${amount < 0 ? "Spend" : "Add"} ${money(Math.abs(amount))}`);
+    updateActive((c) => ({ ...c, wallet: (c.wallet ?? 0) + amount }));
+  }
+
+  function editDenominations() {
+    const answer = prompt(
+      "Coins and their worth in the smallest coin, e.g. gp=100, sp=10, cp=1",
+      formatDenominations(denominations)
+    );
+    if (answer === null) return;
+    const parsed = parseDenominations(answer);
+    if (!parsed) {
+      setNotice("Coins need distinct names, whole values and one worth 1");
+      return;
+    }
+    setDenominations(parsed);
+  }
+
+  function buyItem(template: ItemTemplate) {
+    const price = buyPrice(template, vendor);
+    if (price > wallet) {
+      setNotice(`${activeCharacter.name} can't afford ${template.name}`);
+      return;
+    }
+    const item = spawnItem(template);
+    if (!checkCapacity(activeCharacter, STORAGE_ID, [item.id], {
+      source: { ...activeCharacter, items: [item] },
+    })) {
+      return;
+    }
+    remember(`Buy ${item.name}`);
+    updateActive((c) => ({
+      ...c,
+      wallet: (c.wallet ?? 0) - price,
+      items: [...c.items, item],
+      storageOrder: [...c.storageOrder, item.id],
+    }));
+    setVendor((prev) =>
+      logTransaction(prev, {
+        character: activeCharacter.name,
+        kind: "buy",
+        item: item.name,
+        quantity: quantityOf(item),
+        amount: price,
+      })
+    );
+  }
+
+  function sellItem(itemId: string) {
+    const item = items.find((i) => i.id === itemId);
+    if (!item) {
+      const stashed = stash.items.find((i) => i.id === itemId);
+      if (stashed) {
+        setNotice(`Take ${stashed.name} out of the party stash to sell it`);
+      }
+      return false;
+    }
+    if (!hasValue(item)) {
+      setNotice(`The vendor won't pay anything for ${item.name}`);
+      return false;
+    }
+    const price = sellPrice(item, vendor);
+    remember(`Sell ${item.name}`);
+    deleteItem(item.id);
+    updateActive((c) => ({ ...c, wallet: (c.wallet ?? 0) + price }));
+    setVendor((prev) =>
+      logTransaction(prev, {
+        character: activeCharacter.name,
+        kind: "sell",
+        item: item.name,
+        quantity: quantityOf(item),
+        amount: price,
+      })
+    );
+    return true;
+  }
+
+  // Loadouts
+  function saveLoadout(name: string) {
+    const loadout = createLoadout(name, activeCharacter);
+    remember(`Save loadout ${name}`);
+    setLoadouts((prev) => [...prev.filter((l) => l.name !== name), loadout]);
+  }
+
+  function equipLoadout(loadout: Loadout) {
+    const { character, missing } = applyLoadout(activeCharacter, loadout);
+    // What was equipped before goes to storage; what the loadout equips
+    // leaves it
+    const stored = character.storageOrder.filter(
+      (x) => !storageOrder.includes(x)
+    );
+    if (
+      !checkCapacity(activeCharacter, STORAGE_ID, stored, {
+        outgoing: Object.values(character.slots).filter((x) => x !== null),
+      })
+    ) {
+      return;
+    }
+    remember(`Equip loadout ${loadout.name}`);
+    setCharacters((prev) =>
+      prev.map((c) => (c.id === character.id ? character : c))
+    );
+    setNotice(
+      missing.length > 0
+        ? `Equipped "${loadout.name}" without: ${missing.join(", ")}`
+        : null
+    );
+  }
+
+  function deleteLoadout(loadout: Loadout) {
+    remember(`Delete loadout ${loadout.name}`);
+    setLoadouts((prev) => prev.filter((l) => l.id !== loadout.id));
+  }
+
+  // Add/Delete
+  function saveItem(item: Item) {
+    const existing = items.find((i) => i.id === item.id);
+    if (!existing) {
+      if (
+        !checkCapacity(activeCharacter, STORAGE_ID, [item.id], {
+          source: { ...activeCharacter, items: [item] },
+        })
+      ) {
+        return;
+      }
+      setEditing(null);
+      remember(`Add ${item.name}`);
+      setItems((prev) => [...prev, item]);
+      setStorageOrder((prev) => [...prev, item.id]);
+      return;
+    }
+    // A changed category may no longer fit the slot the item is in, or may
+    // now take both hands and push out what it shares them with
+    const slot = SLOT_IDS.find((k) => slots[k] === item.id);
+    const refit =
+      slot && canEquip(item, slot)
+        ? equipItem(
+            slots,
+            item,
+            slot,
+            items.map((i) => (i.id === item.id ? item : i))
+          )
+        : null;
+    const displaced =
+      refit?.bumped.filter((x) => !storageOrder.includes(x)) ?? [];
+    if (
+      displaced.length > 0 &&
+      !checkCapacity(activeCharacter, STORAGE_ID, displaced)
+    ) {
+      return;
+    }
+    setEditing(null);
+    remember(`Edit ${existing.name}`);
+    setItems((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+    // A bag that is no longer a container empties where it stands
+    if (isContainer(existing) && !isContainer(item)) {
+      updateActive((c) => spill(c, item.id));
+    }
+    if (slot && refit) {
+      updateActive((c) => ({
+        ...c,
+        slots: refit.slots,
+        storageOrder: [...c.storageOrder, ...displaced],
+      }));
+      if (refit.bumped.length > 0 || refit.slots[slot] !== item.id) {
+        setNotice(`${item.name} now takes both hands`);
+      }
+    } else if (slot) {
+      unequip(item.id);
+      setStorageOrder((prev) => [...prev, item.id]);
+      setNotice(
+        `${item.name} no longer fits ${SLOT_LABELS[slot]} and was unequipped`
+      );
+    }
+  }
+
+  // Removes `count` from a stack, or the whole item when count is omitted
+  function deleteItem(id: string, count?: number) {
+    const item = items.find((i) => i.id === id);
+    if (item && count !== undefined && count < quantityOf(item)) {
+      setItems((prev) =>
+        prev.map((i) =>
+          i.id === id ? { ...i, quantity: quantityOf(i) - count } : i
+        )
+      );
+      return;
+    }
+    updateActive((c) => removeItem(c, id));
+  }
+
+  function promptDelete(item: Item) {
+    if (quantityOf(item) <= 1) {
+      remember(`Delete ${item.name}`);
+      return deleteItem(item.id);
+    }
+    const answer = prompt(
+      `Delete how many ${item.name}? (1-${quantityOf(item)})`,
+      String(quantityOf(item))
+    );
+    const count = Math.floor(Number(answer));
+    if (answer === null || !(count > 0)) return;
+    remember(`Delete ${Math.min(count, quantityOf(item))} ${item.name}`);
+    deleteItem(item.id, count);
+  }
+
+  function promptSplit(item: Item) {
+    const answer = prompt(
+      `Split how many ${item.name} into a new stack? (1-${quantityOf(item) - 1})`,
+      String(Math.floor(quantityOf(item) / 2))
+    );
+    if (answer === null) return;
+    const split = splitStack(item, Math.floor(Number(answer)));
+    if (!split) return;
+    const [rest, created] = split;
+    remember(`Split ${item.name}`);
+    setItems((prev) => [
+      ...prev.map((i) => (i.id === item.id ? rest : i)),
+      created,
+    ]);
+    // The new stack goes right after the old one, in the same container
+    updateActive((c) => {
+      const container = containerOf(c, item.id) ?? STORAGE_ID;
+      const at = contentsOf(c, container).indexOf(item.id) + 1;
+      return moveToContainer(c, created.id, container, at) ?? c;
+    });
+  }
+
+  // Moves `source` onto the `target` stack, removing it if fully absorbed
+  function mergeInto(target: Item, source: Item) {
+    const merged = mergeStacks(target, source);
+    const into = containerOf(activeCharacter, target.id) ?? STORAGE_ID;
+    if (into !== containerOf(activeCharacter, source.id)) {
+      // Only the units that fit on the stack change containers
+      const moving = {
+        ...source,
+        quantity: quantityOf(merged.target) - quantityOf(target),
+      };
+      const from = { ...activeCharacter, items: [moving] };
+      const fits = checkCapacity(activeCharacter, into, [source.id], {
+        source: from,
+      });
+      if (!fits) return;
+    }
+    remember(`Merge ${source.name}`);
+    setItems((prev) =>
+      prev.map((i) =>
+        i.id === target.id
+          ? merged.target
+          : i.id === source.id && merged.source
+            ? merged.source
+            : i
+      )
+    );
+    if (!merged.source) deleteItem(source.id);
+  }
+
+  // Sockets
+  function socketInto(hostId: string, gemId: string) {
+    const host = items.find((i) => i.id === hostId);
+    const gem = items.find((i) => i.id === gemId);
+    if (!host || !gem) {
+      setNotice("Move the gem into this character's inventory first");
+      return false;
+    }
+    if (!canSocket(host, gem)) return false;
+    const inserted = insertGem(host, gem);
+    remember(`Socket ${gem.name} into ${host.name}`);
+    setItems((prev) =>
+      prev.map((i) =>
+        i.id === host.id
+          ? inserted.host
+          : i.id === gem.id && inserted.gem
+            ? inserted.gem
+            : i
+      )
+    );
+    if (!inserted.gem) deleteItem(gem.id);
+    return true;
+  }
+
+  // The gem goes to the end of storage
+  function unsocket(host: Item, index: number) {
+    const removed = removeGem(host, index);
+    if (!removed) return false;
+    // The gem lands next to its host, where its weight already counts; only
+    // an equipped host's gem has to find room in storage
+    if (
+      containerOf(activeCharacter, host.id) === null &&
+      !checkCapacity(activeCharacter, STORAGE_ID, [removed.gem.id], {
+        source: { ...activeCharacter, items: [removed.gem] },
+      })
+    ) {
+      return false;
+    }
+    remember(`Remove ${removed.gem.name} from ${host.name}`);
+    updateActive((c) => {
+      const next = {
+        ...c,
+        items: [
+          ...c.items.map((i) => (i.id === host.id ? removed.host : i)),
+          removed.gem,
+        ],
+      };
+      const container = containerOf(c, host.id);
+      const at =
+        container === null
+          ? undefined
+          : contentsOf(c, container).indexOf(host.id) + 1;
+      return (
+        moveToContainer(next, removed.gem.id, container ?? STORAGE_ID, at) ??
+        next
+      );
+    });
+    return true;
+  }
+
+  // Durability
+  function updateItems(label: string, update: (item: Item) => Item) {
+    const changed = items.filter((i) => update(i) !== i);
+    if (changed.length === 0) return 0;
+    remember(label);
+    setItems((prev) => prev.map(update));
+    return changed.length;
+  }
+
+  // Wears down everything equipped, e.g. after a fight
+  function afterCombat() {
+    const answer = prompt(
+      "Damage every equipped item by how much?",
+      String(DEFAULT_WEAR)
+    );
+    const amount = Number(answer);
+    if (answer === null || !(amount > 0)) return;
+    const equipped = new Set(Object.values(slots));
+    const worn = updateItems("After combat", (i) =>
+      equipped.has(i.id) ? wear(i, amount) : i
+    );
+    setNotice(
+      worn > 0
+        ? `${worn} equipped items lost ${amount} durability`
+        : "Nothing equipped has durability"
+    );
+  }
+
+  function promptWear(item: Item) {
+    const answer = prompt(
+      `Damage ${item.name} by how much?`,
+      String(DEFAULT_WEAR)
+    );
+    const amount = Number(answer);
+    if (answer === null || !(amount > 0)) return;
+    updateItems(`Damage ${item.name}`, (i) =>
+      i.id === item.id ? wear(i, amount) : i
+    );
+  }
+
+  function repairItems(ids: string[], label: string) {
+    const repaired = updateItems(label, (i) =>
+      ids.includes(i.id) ? repair(i) : i
+    );
+    if (repaired === 0) setNotice("Nothing needs repair");
+  }
+
+  // Drag & Drop
+  function unequip(itemId: string) {
+    setSlots((prev) => {
+      const next = { ...prev };
+      for (const k of SLOT_IDS) if (next[k] === itemId) next[k] = null;
+      return next;
+    });
+  }
+
+  function handleDragStart(event: DragStartEvent) {
+    const activeId = String(event.active.id);
+    setDragItem(items.find((i) => i.id === activeId) ?? null);
+    setHoverItem(null);
+  }
+
+  function handleDragOver(event: DragOverEvent) {
+    setDragOverId(event.over ? String(event.over.id) : null);
+  }
+
+  function clearDrag() {
+    setDragItem(null);
+    setDragOverId(null);
+  }
+
+  function handleDragEnd(event: DragEndEvent) {
+    clearDrag();
+    const activeId = String(event.active.id);
+    // A touch hold released without moving is a long-press: show details
+    if (
+      "touches" in event.activatorEvent &&
+      Math.hypot(event.delta.x, event.delta.y) < 5
+    ) {
+      const rect = event.active.rect.current.initial;
+      const item = findItem(activeId);
+      if (item && rect) handleHover(item, { x: rect.left, y: rect.bottom });
+      return;
+    }
+    const overId = event.over ? String(event.over.id) : "";
+    if (!activeId || !overId) return;
+
+    if (overId === VENDOR_ID) {
+      sellItem(activeId);
+      return;
+    }
+
+    const hostId = hostIdFromDrop(overId);
+    if (hostId) {
+      socketInto(hostId, activeId);
+      return;
+    }
+
+    const targetCharacterId = characterIdFromDrop(overId);
+    if (targetCharacterId) {
+      giveItem(activeId, targetCharacterId);
+      return;
+    }
+
+    const fromStash = stash.storageOrder.includes(activeId);
+    if (overId === STASH_ID || stash.storageOrder.includes(overId)) {
+      if (!fromStash) stashItem(activeId);
+      else if (overId !== STASH_ID && overId !== activeId) {
+        const oldIndex = stash.storageOrder.indexOf(activeId);
+        const newIndex = stash.storageOrder.indexOf(overId);
+        remember(`Reorder ${nameOf(activeId)}`);
+        setStash((prev) => ({
+          ...prev,
+          storageOrder: arrayMove(prev.storageOrder, oldIndex, newIndex),
+        }));
+      }
+      return;
+    }
+
+    const target = dropContainer(overId);
+    if (fromStash) {
+      if (target) takeFromStash(activeId, target);
+      return;
+    }
+
+    const source = containerOf(activeCharacter, activeId);
+    const inStorageActive = source === STORAGE_ID;
+    const inStorageOver = storageOrder.includes(overId);
+
+    const activeItem = items.find((i) => i.id === activeId);
+    const overItem = items.find((i) => i.id === overId);
+    if (
+      source !== null &&
+      activeItem &&
+      overItem &&
+      containerOf(activeCharacter, overId) !== null &&
+      canMerge(overItem, activeItem)
+    ) {
+      mergeInto(overItem, activeItem);
+      return;
+    }
+
+    if (inStorageActive && inStorageOver) {
+      if (sortActive) return;
+      const oldIndex = storageOrder.indexOf(activeId);
+      const newIndex = storageOrder.indexOf(overId);
+      if (oldIndex !== newIndex) {
+        remember(`Reorder ${activeItem?.name ?? "item"}`);
+        setStorageOrder((prev) => arrayMove(prev, oldIndex, newIndex));
+      }
+      return;
+    }
+
+    if (overId === STORAGE_ID && storageMode === "grid") {
+      const item = items.find((i) => i.id === activeId);
+      const rect = event.active.rect.current.translated;
+      if (!item || !rect || !event.over) return;
+      const cell = cellAt(rect, event.over.rect);
+      const placed = placeAll(storageOrder, gridPositions, items).positions;
+      const stack = itemAt(placed, items, cell);
+      if (inStorageActive && stack && canMerge(stack, item)) {
+        mergeInto(stack, item);
+        return;
+      }
+      if (!fits(placed, items, item, cell)) return;
+      if (!inStorageActive && !checkCapacity(activeCharacter, STORAGE_ID, [activeId])) {
+        return;
+      }
+      remember(`${source === null ? "Unequip" : "Move"} ${item.name}`);
+      setGridPositions({ ...placed, [activeId]: cell });
+      if (!inStorageActive) {
+        updateActive((c) => moveToContainer(c, activeId, STORAGE_ID) ?? c);
+      }
+      return;
+    }
+
+    if (target !== null && activeItem) {
+      const index = contentsOf(activeCharacter, target).indexOf(overId);
+      // Dropped on itself, or on the empty part of the container it is in
+      if (overId === activeId || (index === -1 && source === target)) return;
+      moveInto(
+        activeItem,
+        target,
+        index === -1 || (target === STORAGE_ID && sortActive) ? undefined : index
+      );
+      return;
+    }
+
+    if (isSlotId(overId) && activeItem) equipTo(activeItem, overId);
+  }
+
+  // The container a drop on `overId` lands in: storage, a bag, or none
+  function dropContainer(overId: string) {
+    if (overId === STORAGE_ID) return STORAGE_ID;
+    return containerIdFromDrop(overId) ?? containerOf(activeCharacter, overId);
+  }
+
+  function equipTo(item: Item, slot: SlotId) {
+    if (!canEquip(item, slot) || slots[slot] === item.id) return false;
+    const unmet = unmetRequirements(item, activeCharacter);
+    if (unmet.length > 0) {
+      setNotice(
+        `${activeCharacter.name} can't equip ${item.name}: ` +
+          `needs ${unmet.join(", ")}`
+      );
+      return false;
+    }
+    const { slots: equipped, bumped } = equipItem(slots, item, slot, items);
+    // Whatever the item displaces goes to storage in its place
+    const displaced = bumped.filter((x) => !storageOrder.includes(x));
+    if (
+      !checkCapacity(activeCharacter, STORAGE_ID, displaced, {
+        outgoing: [item.id],
+      })
+    ) {
+      return false;
+    }
+    remember(`Equip ${item.name}`);
+    updateActive((c) => {
+      const next = detach(c, item.id);
+      return {
+        ...next,
+        slots: equipped,
+        storageOrder: [...next.storageOrder, ...displaced],
+      };
+    });
+    return true;
+  }
+
+  // Everything drag and drop can do to an item, as menu entries
+  function itemActions(item: Item): ItemAction[] {
+    const actions: ItemAction[] = [];
+    for (const slot of SLOT_IDS) {
+      if (!canEquip(item, slot) || slots[slot] === item.id) continue;
+      actions.push({
+        label: `Equip to ${SLOT_LABELS[slot]}`,
+        onSelect: () => {
+          if (!equipTo(item, slot)) return;
+          setAnnouncement(`${item.name} equipped to ${SLOT_LABELS[slot]}.`);
+        },
+      });
+    }
+    const container = containerOf(activeCharacter, item.id);
+    if (container !== STORAGE_ID) {
+      actions.push({
+        label: container === null ? "Unequip" : "Move to storage",
+        onSelect: () => {
+          if (!moveInto(item, STORAGE_ID)) return;
+          setAnnouncement(`${item.name} moved to storage.`);
+        },
+      });
+    }
+    const bags = items.filter(isContainer);
+    for (const bag of bags) {
+      if (bag.id === container) continue;
+      if (wouldCycle(activeCharacter, item.id, bag.id)) continue;
+      // Bags sharing a name are told apart by where they are
+      const twin = bags.some((b) => b.id !== bag.id && b.name === bag.name);
+      actions.push({
+        label: twin
+          ? `Put in ${bag.name} (${whereIs(bag.id)})`
+          : `Put in ${bag.name}`,
+        onSelect: () => {
+          if (!moveInto(item, bag.id)) return;
+          setAnnouncement(`${item.name} put in ${bag.name}.`);
+        },
+      });
+    }
+    if (isContainer(item)) {
+      const open = openBags.includes(item.id);
+      actions.push({
+        label: open ? "Close" : "Open",
+        onSelect: () => toggleBag(item.id),
+      });
+    }
+    actions.push({
+      label: "Put in party stash",
+      onSelect: () => {
+        if (!stashItem(item.id)) return;
+        setAnnouncement(`${item.name} put in the party stash.`);
+      },
+    });
+    for (const c of characters) {
+      if (c.id === activeCharacter.id) continue;
+      actions.push({
+        label: `Give to ${c.name}`,
+        onSelect: () => {
+          if (!giveItem(item.id, c.id)) return;
+          setAnnouncement(`${item.name} given to ${c.name}.`);
+        },
+      });
+    }
+    if (vendorOpen && hasValue(item)) {
+      actions.push({
+        label: `Sell for ${money(sellPrice(item, vendor))}`,
+        onSelect: () => {
+          if (!sellItem(item.id)) return;
+          setAnnouncement(`${item.name} sold.`);
+        },
+      });
+    }
+    socketedGems(item).forEach((gem, index) =>
+      actions.push({
+        label: `Remove ${gem.name} (socket ${index + 1})`,
+        onSelect: () => {
+          if (!unsocket(item, index)) return;
+          setAnnouncement(`${gem.name} removed from ${item.name}.`);
+        },
+      })
+    );
+    if (hasDurability(item)) {
+      actions.push({ label: "Damage…", onSelect: () => promptWear(item) });
+    }
+    if (isDamaged(item)) {
+      actions.push({
+        label: `Repair (−${repairCost(item)} max durability)`,
+        onSelect: () => {
+          repairItems([item.id], `Repair ${item.name}`);
+          setAnnouncement(`${item.name} repaired.`);
+        },
+      });
+    }
+    actions.push({ label: "Edit…", onSelect: () => setEditing({ item }) });
+    return numberRepeats(actions);
+  }
+
+  function whereIs(itemId: string) {
+    const container = containerOf(activeCharacter, itemId);
+    if (container === null) return "equipped";
+    if (container === STORAGE_ID) return "in storage";
+    return `in ${items.find((i) => i.id === container)?.name}`;
+  }
+
+  // Spoken by dnd-kit's live region during pointer and keyboard drags
+  function describeTarget(overId: string, item?: Item) {
+    if (isSlotId(overId)) {
+      return item &&
+        (!canEquip(item, overId) || !meetsRequirements(item, activeCharacter))
+        ? `the ${SLOT_LABELS[overId]} slot, where it can't be equipped`
+        : `the ${SLOT_LABELS[overId]} slot`;
+    }
+    if (overId === STORAGE_ID) return "storage";
+    if (overId === VENDOR_ID) {
+      return item && hasValue(item)
+        ? `the vendor, who pays ${money(sellPrice(item, vendor))}`
+        : "the vendor";
+    }
+    if (overId === STASH_ID) return "the party stash";
+    const hostId = hostIdFromDrop(overId);
+    if (hostId) return `a free socket in ${nameOf(hostId)}`;
+    const bagId = containerIdFromDrop(overId);
+    if (bagId) return nameOf(bagId);
+    const characterId = characterIdFromDrop(overId);
+    if (characterId) {
+      const name = characters.find((c) => c.id === characterId)?.name;
+      return `${name}'s inventory`;
+    }
+    const overItem = findItem(overId);
+    if (!overItem) return "nothing";
+    if (stash.storageOrder.includes(overId)) {
+      return `${overItem.name} in the party stash`;
+    }
+    const container = containerOf(activeCharacter, overId);
+    return container === STORAGE_ID || container === null
+      ? `${overItem.name} in storage`
+      : `${overItem.name} in ${nameOf(container)}`;
+  }
+
+  const nameOf = (id: string | number) => findItem(String(id))?.name ?? "item";
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => `Picked up ${nameOf(active.id)}.`,
+    onDragOver: ({ active, over }) =>
+      over
+        ? `${nameOf(active.id)} is over ${describeTarget(
+            String(over.id),
+            items.find((i) => i.id === active.id)
+          )}.`
+        : `${nameOf(active.id)} is no longer over a drop target.`,
+    onDragEnd: ({ active, over }) =>
+      over
+        ? `${nameOf(active.id)} was dropped on ${describeTarget(
+            String(over.id),
+            items.find((i) => i.id === active.id)
+          )}.`
+        : `${nameOf(active.id)} was dropped back where it was.`,
+    onDragCancel: ({ active }) =>
+      `Moving ${nameOf(active.id)} was cancelled.`,
+  };
+
+  function slotHighlight(id: SlotId): SlotHighlight {
+    if (!dragItem) return "idle";
+    const over = dragOverId === id;
+    if (
+      !canEquip(dragItem, id) ||
+      !meetsRequirements(dragItem, activeCharacter)
+    ) {
+      return over ? "rejected" : "invalid";
+    }
+    return over ? "target" : "valid";
+  }
+
+  // Tooltip handlers
+  function handleHover(item: Item | null, position?: Position) {
+    if (tooltipPinned && hoverItem) return;
     setHoverItem(item);
-    if (e) setTooltipPos({ x: e.clientX, y: e.clientY });
+    if (position) setTooltipPos(position);
+  }
+
+  // Touch has no mouseleave, so a tooltip opened by long-press stays up
+  // until the next touch anywhere on the page
+  useEffect(() => {
+    if (!hoverItem) return;
+    const dismiss = () => setHoverItem(null);
+    document.addEventListener("touchstart", dismiss, { passive: true });
+    return () => document.removeEventListener("touchstart", dismiss);
+  }, [hoverItem]);
+
+  function renderSlot(id: SlotId) {
+    const item = items.find((i) => i.id === slots[id]);
+    const mainItem = items.find((i) => i.id === slots.mainHand);
+    const blockedBy =
+      id === "offHand" && isTwoHanded(mainItem) ? mainItem : undefined;
+    return (
+      <EquipmentSlot
+        id={id}
+        label={SLOT_LABELS[id]}
+        occupant={(item ?? blockedBy)?.name}
+        highlight={slotHighlight(id)}
+      >
+        {item && (
+          <EquipmentItem
+            item={item}
+            unusable={!meetsRequirements(item, activeCharacter)}
+            actions={itemActions(item)}
+            onEdit={() => setEditing({ item })}
+            onHover={handleHover}
+          />
+        )}
+        {blockedBy && <BlockedSlotItem item={blockedBy} />}
+      </EquipmentSlot>
+    );
   }
 
-  const storageItems = storageOrder
+  const unusable = equippedItems(slots, items)
+    .map(({ item }) => ({
+      name: item.name,
+      unmet: unmetRequirements(item, activeCharacter),
+    }))
+    .filter((u) => u.unmet.length > 0);
+
+  const load = encumbrance(activeCharacter);
+  const totals = computeTotals(slots, items, [
+    ...setModifiers(sets, slots, items),
+    { source: ENCUMBRANCE_LABELS[load], stats: ENCUMBRANCE_EFFECTS[load] },
+  ]);
+  const stored = storageWeight(activeCharacter);
+  const { storageCapacity } = activeCharacter;
+
+  function packStorage() {
+    const packed = autoPack(storageOrder, items);
+    remember("Auto-pack");
+    setStorageOrder(packed.order);
+    setGridPositions(packed.positions);
+  }
+
+  // Props every stored item of the active character gets, in any container
+  function storedItemProps(item: Item) {
+    return {
+      item,
+      actions: itemActions(item),
+      open: openBags.includes(item.id),
+      onToggleOpen: isContainer(item) ? () => toggleBag(item.id) : undefined,
+      onEdit: () => setEditing({ item }),
+      onDelete: () => promptDelete(item),
+      onSplit: () => promptSplit(item),
+      onHover: handleHover,
+    };
+  }
+
+  const itemsIn = (owner: Character, ids: string[]) =>
+    ids
+      .map((id) => owner.items.find((i) => i.id === id))
+      .filter(Boolean) as Item[];
+  const storageItems = itemsIn(activeCharacter, storageOrder);
+  const bags = openBags
     .map((id) => items.find((i) => i.id === id))
-    .filter(Boolean) as Item[];
+    .filter((bag): bag is Item => isContainer(bag));
+  const grid = placeAll(storageOrder, gridPositions, items);
+  const visibleItems = sortStorage(
+    storageItems.filter((item) => matchesView(item, storageView)),
+    items,
+    storageView
+  );
 
   return (
     <div className="min-h-screen bg-slate-100 p-6 relative">
-      <h1 className="text-2xl font-semibold mb-4">RPG Equipment + Storage</h1>
-
-      {/* Add Item */}
-      <div className="flex flex-col gap-2 mb-6 max-w-lg">
-        <div className="flex gap-2">
-          <input
-            className="border p-2 rounded flex-1"
-            placeholder="Item name"
-            value={newName}
-            onChange={(e) => setNewName(e.target.value)}
-          />
-          <input
-            className="border p-2 rounded w-24"
-            placeholder="Icon (emoji)"
-            value={newIcon}
-            onChange={(e) => setNewIcon(e.target.value)}
-          />
-        </div>
-        <textarea
-          className="border p-2 rounded"
-          placeholder="Description"
-          value={newDesc}
-          onChange={(e) => setNewDesc(e.target.value)}
-        />
-        <input
-          className="border p-2 rounded"
-          placeholder="Stats (e.g. attack=5, defense=2)"
-          value={newStats}
-          onChange={(e) => setNewStats(e.target.value)}
-        />
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h1 className="text-2xl font-semibold">RPG Equipment + Storage</h1>
+        <button
+          onClick={() => stepHistory(undo)}
+          disabled={history.past.length === 0}
+          title={
+            history.past.length > 0
+              ? `Undo ${history.past.at(-1)!.label} (Ctrl+Z)`
+              : "Nothing to undo"
+          }
+          className="text-sm text-indigo-600 hover:underline disabled:opacity-40"
+        >
+          Undo
+        </button>
+        <button
+          onClick={() => stepHistory(redo)}
+          disabled={history.future.length === 0}
+          title={
+            history.future.length > 0
+              ? `Redo ${history.future.at(-1)!.label} (Ctrl+Shift+Z)`
+              : "Nothing to redo"
+          }
+          className="text-sm text-indigo-600 hover:underline disabled:opacity-40"
+        >
+          Redo
+        </button>
         <button
-          onClick={addItem}
-          className="bg-green-600 text-white px-4 py-2 rounded self-start"
+          onClick={() => downloadSave(currentSave)}
+          className="text-sm text-indigo-600 hover:underline"
         >
-          Add Item
+          Export
         </button>
+        <label className="text-sm text-indigo-600 hover:underline cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importSave(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
       </div>
 
-      <DndContext collisionDetection={pointerWithin} onDragEnd={handleDragEnd}>
-        {/* Equipment */}
-        <div className="flex flex-col items-center gap-4 mb-12">
-          <EquipmentSlot id="head" label={SLOT_LABELS.head}>
-            {slots.head && (
-              <EquipmentItem
-                item={items.find((i) => i.id === slots.head)!}
-                onHover={handleHover}
-              />
-            )}
-          </EquipmentSlot>
-
-          <div className="flex items-center gap-8">
-            <EquipmentSlot id="mainHand" label={SLOT_LABELS.mainHand}>
-              {slots.mainHand && (
-                <EquipmentItem
-                  item={items.find((i) => i.id === slots.mainHand)!}
-                  onHover={handleHover}
-                />
-              )}
-            </EquipmentSlot>
-
-            <EquipmentSlot id="body" label={SLOT_LABELS.body}>
-              {slots.body && (
-                <EquipmentItem
-                  item={items.find((i) => i.id === slots.body)!}
-                  onHover={handleHover}
-                />
-              )}
-            </EquipmentSlot>
-
-            <EquipmentSlot id="offHand" label={SLOT_LABELS.offHand}>
-              {slots.offHand && (
-                <EquipmentItem
-                  item={items.find((i) => i.id === slots.offHand)!}
-                  onHover={handleHover}
-                />
-              )}
-            </EquipmentSlot>
+      <DndContext
+        sensors={sensors}
+        collisionDetection={detectCollisions}
+        accessibility={{
+          announcements,
+          screenReaderInstructions: {
+            draggable:
+              "To pick up an item, press Space or Enter. Use the arrow keys to move it over a slot, storage or another character, then press Space or Enter to drop it, or Escape to cancel. The actions button next to each item offers the same moves as a menu.",
+          },
+        }}
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDragEnd={handleDragEnd}
+        onDragCancel={clearDrag}
+      >
+        {notice && (
+          <div className="flex justify-between items-center max-w-lg mb-4 p-2 rounded border border-amber-400 bg-amber-50 text-sm">
+            <span>{notice}</span>
+            <button
+              onClick={() => setNotice(null)}
+              className="text-gray-500 hover:underline ml-3"
+            >
+              Dismiss
+            </button>
           </div>
+        )}
 
-          <EquipmentSlot id="legs" label={SLOT_LABELS.legs}>
-            {slots.legs && (
-              <EquipmentItem
-                item={items.find((i) => i.id === slots.legs)!}
-                onHover={handleHover}
-              />
-            )}
-          </EquipmentSlot>
-        </div>
+        <CharacterRoster
+          characters={characters}
+          activeId={activeCharacter.id}
+          onSelect={setActiveCharacterId}
+          onCreate={addCharacter}
+          onRename={renameCharacter}
+          onDelete={deleteCharacter}
+        />
 
-        {/* Storage */}
-        <h2 className="text-xl font-semibold mb-2">Storage</h2>
-        <StorageContainer>
-          <SortableContext
-            items={storageOrder}
-            strategy={verticalListSortingStrategy}
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <button
+            onClick={() => setEditing({})}
+            className="bg-green-600 text-white px-4 py-2 rounded"
+          >
+            New Item
+          </button>
+          <button
+            onClick={afterCombat}
+            title="Damage every equipped item"
+            className="text-sm text-indigo-600 hover:underline"
           >
-            {storageItems.map((item) => (
-              <StorageItem
-                key={item.id}
-                item={item}
-                onDelete={() => deleteItem(item.id)}
-                onHover={handleHover}
-              />
+            After combat…
+          </button>
+          <button
+            onClick={() =>
+              repairItems(
+                items.filter(isDamaged).map((i) => i.id),
+                "Repair all"
+              )
+            }
+            title="Restore every damaged item, lowering its max durability"
+            className="text-sm text-indigo-600 hover:underline"
+          >
+            Repair all
+          </button>
+          <button
+            onClick={() => setVendorOpen((open) => !open)}
+            aria-pressed={vendorOpen}
+            className="text-sm text-indigo-600 hover:underline"
+          >
+            {vendorOpen ? "Leave vendor" : "Visit vendor"}
+          </button>
+        </div>
+
+        {/* Equipment, laid out by SLOT_LAYOUT */}
+        <div className="flex flex-wrap justify-center gap-4 sm:gap-8 mb-12">
+          <div className="grid gap-x-3 gap-y-2 sm:gap-x-8 sm:gap-y-4 self-start">
+            {SLOT_LAYOUT.map((s) => (
+              <div key={s.id} style={{ gridRow: s.row, gridColumn: s.col }}>
+                {renderSlot(s.id)}
+              </div>
             ))}
-          </SortableContext>
-          {storageItems.length === 0 && (
-            <p className="text-gray-500 text-sm">Storage is empty. Drag items here.</p>
+          </div>
+
+          <CharacterSheet
+            totals={totals}
+            carried={carriedWeight(activeCharacter)}
+            carryLimit={activeCharacter.carryLimit}
+            encumbrance={load}
+            onSetCarryLimit={() => promptLimit("carryLimit", "Carry limit")}
+            wallet={money(wallet)}
+            onAdjustWallet={adjustWallet}
+            level={levelOf(activeCharacter)}
+            characterClass={activeCharacter.characterClass}
+            attributes={baseAttributes(activeCharacter)}
+            unusable={unusable}
+            onEditProgress={() => setProgressOpen(true)}
+          />
+
+          <LoadoutPanel
+            loadouts={activeCharacter.loadouts}
+            onSave={saveLoadout}
+            onApply={equipLoadout}
+            onDelete={deleteLoadout}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-8 items-start">
+          <div className="w-full sm:w-auto min-w-0">
+            {/* Storage */}
+            <div className="flex items-center gap-3 mb-2">
+              <h2 className="text-xl font-semibold">Storage</h2>
+              <button
+                onClick={() =>
+                  setStorageMode((m) => (m === "grid" ? "list" : "grid"))
+                }
+                className="text-sm text-indigo-600 hover:underline"
+              >
+                {storageMode === "grid" ? "List view" : "Grid view"}
+              </button>
+              {storageMode === "grid" && (
+                <button
+                  onClick={packStorage}
+                  className="text-sm text-indigo-600 hover:underline"
+                >
+                  Auto-pack
+                </button>
+              )}
+              <span
+                className={`ml-auto text-sm ${
+                  storageCapacity !== undefined && stored > storageCapacity
+                    ? "text-red-600"
+                    : "text-gray-600"
+                }`}
+              >
+                Weight {formatWeight(stored)}
+                {storageCapacity !== undefined &&
+                  ` / ${formatWeight(storageCapacity)}`}
+              </span>
+              <button
+                onClick={() => promptLimit("storageCapacity", "Storage capacity")}
+                className="text-sm text-indigo-600 hover:underline"
+              >
+                Capacity…
+              </button>
+            </div>
+            <StorageToolbar
+              view={storageView}
+              statKeys={statKeys(storageItems)}
+              showSort={storageMode === "list"}
+              onChange={setStorageView}
+            />
+            {storageMode === "grid" ? (
+              <div className="max-w-full overflow-x-auto">
+                <StorageGrid>
+                  {storageItems.map((item) => {
+                    const pos = grid.positions[item.id];
+                    if (!pos) return null;
+                    return (
+                      <GridStorageItem
+                        key={item.id}
+                        {...storedItemProps(item)}
+                        x={pos.x}
+                        y={pos.y}
+                        dimmed={!matchesView(item, storageView)}
+                      />
+                    );
+                  })}
+                </StorageGrid>
+                {/* Items the grid has no room for stay usable here until
+                    they are dragged into a free spot */}
+                {grid.overflow.length > 0 && (
+                  <div className="mt-2 max-w-lg">
+                    <p className="text-sm text-red-600 mb-1">
+                      No room in the grid for these; drag them to a free spot
+                      or elsewhere:
+                    </p>
+                    <SortableContext
+                      items={grid.overflow}
+                      strategy={verticalListSortingStrategy}
+                    >
+                      {itemsIn(activeCharacter, grid.overflow).map((item) => (
+                        <StorageItem key={item.id} {...storedItemProps(item)} />
+                      ))}
+                    </SortableContext>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <StorageContainer>
+                <SortableContext
+                  items={visibleItems.map((i) => i.id)}
+                  strategy={verticalListSortingStrategy}
+                  disabled={
+                    sortActive ? { draggable: false, droppable: true } : false
+                  }
+                >
+                  {visibleItems.map((item) => (
+                    <StorageItem key={item.id} {...storedItemProps(item)} />
+                  ))}
+                </SortableContext>
+                {storageItems.length === 0 && (
+                  <p className="text-gray-500 text-sm">Storage is empty. Drag items here.</p>
+                )}
+                {storageItems.length > 0 && visibleItems.length === 0 && (
+                  <p className="text-gray-500 text-sm">
+                    No stored items match the filters.
+                  </p>
+                )}
+              </StorageContainer>
+            )}
+
+            {/* Open bags */}
+            {bags.map((bag) => {
+              const capacity = capacityOf(activeCharacter, bag.id);
+              const contents = itemsIn(
+                activeCharacter,
+                contentsOf(activeCharacter, bag.id)
+              );
+              return (
+                <section key={bag.id} className="mt-4">
+                  <div className="flex items-center gap-3 mb-2">
+                    <h3 className="text-lg font-semibold">
+                      {bag.icon ?? "👜"} {bag.name}
+                    </h3>
+                    <span className="ml-auto text-sm text-gray-600">
+                      Weight {formatWeight(containerWeight(activeCharacter, bag.id))}
+                      {capacity !== undefined && ` / ${formatWeight(capacity)}`}
+                    </span>
+                    <button
+                      onClick={() => toggleBag(bag.id)}
+                      className="text-sm text-indigo-600 hover:underline"
+                    >
+                      Close
+                    </button>
+                  </div>
+                  <StorageContainer id={containerDropId(bag.id)}>
+                    <SortableContext
+                      items={contents.map((i) => i.id)}
+                      strategy={verticalListSortingStrategy}
+                    >
+                      {contents.map((item) => (
+                        <StorageItem key={item.id} {...storedItemProps(item)} />
+                      ))}
+                    </SortableContext>
+                    {contents.length === 0 && (
+                      <p className="text-gray-500 text-sm">
+                        {bag.name} is empty. Drag items here.
+                      </p>
+                    )}
+                  </StorageContainer>
+                </section>
+              );
+            })}
+
+            {/* Party stash */}
+            <section className="mt-4">
+              <div className="flex items-center gap-3 mb-2">
+                <h3 className="text-lg font-semibold">Party stash</h3>
+                <span className="text-sm text-gray-600">
+                  Shared by every character
+                </span>
+              </div>
+              <StorageContainer id={STASH_ID}>
+                <SortableContext
+                  items={stash.storageOrder}
+                  strategy={verticalListSortingStrategy}
+                >
+                  {itemsIn(stash, stash.storageOrder).map((item) => (
+                    <StorageItem
+                      key={item.id}
+                      item={item}
+                      actions={[
+                        {
+                          label: `Take for ${activeCharacter.name}`,
+                          onSelect: () => {
+                            if (!takeFromStash(item.id)) return;
+                            setAnnouncement(`${item.name} moved to storage.`);
+                          },
+                        },
+                      ]}
+                      onDelete={() => deleteFromStash(item)}
+                      onHover={handleHover}
+                    />
+                  ))}
+                </SortableContext>
+                {stash.storageOrder.length === 0 && (
+                  <p className="text-gray-500 text-sm">
+                    The stash is empty. Drag items here to share them.
+                  </p>
+                )}
+              </StorageContainer>
+            </section>
+          </div>
+
+          <CatalogPanel
+            catalog={catalog}
+            sets={sets}
+            onSpawn={spawnFromTemplate}
+            onCreate={() => setEditing({ template: true })}
+            onEdit={(t) => setEditing({ item: t, template: true })}
+            onDelete={deleteTemplate}
+            onImport={importCatalog}
+            onExport={() =>
+              downloadCatalog({ templates: catalog, recipes, sets })
+            }
+            onGenerate={() => setLootOpen(true)}
+            onCreateSet={() => setEditingSet({})}
+            onEditSet={(set) => setEditingSet({ set })}
+            onDeleteSet={deleteSet}
+          />
+
+          <CraftingPanel
+            recipes={recipes}
+            catalog={catalog}
+            character={activeCharacter}
+            onCraft={craftRecipe}
+            onDelete={deleteRecipe}
+          />
+
+          {vendorOpen && (
+            <VendorPanel
+              catalog={catalog}
+              vendor={vendor}
+              denominations={denominations}
+              buyer={activeCharacter.name}
+              wallet={wallet}
+              onBuy={buyItem}
+              onChangeMultiplier={(key, value) =>
+                setVendor((prev) => ({ ...prev, [key]: value }))
+              }
+              onEditDenominations={editDenominations}
+              onClose={() => setVendorOpen(false)}
+            />
           )}
-        </StorageContainer>
+        </div>
       </DndContext>
 
-      {hoverItem && <HoverTooltip item={hoverItem} position={tooltipPos} />}
+      {hoverItem && (
+        <HoverTooltip
+          item={hoverItem}
+          position={tooltipPos}
+          comparisons={compareWithEquipped(hoverItem, slots, items, sets)}
+          itemSet={setStatus(hoverItem, sets, slots, items, catalog)}
+          requirements={checkRequirements(hoverItem, activeCharacter)}
+          denominations={denominations}
+          pinned={tooltipPinned}
+        />
+      )}
+
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      {progressOpen && (
+        <CharacterDialog
+          character={activeCharacter}
+          onSave={saveProgress}
+          onCancel={() => setProgressOpen(false)}
+        />
+      )}
+
+      {lootOpen && (
+        <LootDialog
+          templates={catalog}
+          onAdd={addLoot}
+          onCancel={() => setLootOpen(false)}
+        />
+      )}
+
+      {editing && (
+        <ItemEditor
+          item={editing.item}
+          kind={editing.template ? "template" : "item"}
+          denominations={denominations}
+          sets={sets}
+          onSave={editing.template ? saveTemplate : saveItem}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {editingSet && (
+        <SetEditor
+          set={editingSet.set}
+          onSave={saveSet}
+          onCancel={() => setEditingSet(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { searchCatalog } from "./catalog.ts";
+import type { ItemSet } from "./sets.ts";
+import { CATEGORY_LABELS, ITEM_CATEGORIES, type ItemCategory } from "./slots.ts";
+import type { ItemTemplate } from "./types.ts";
+
+export default function CatalogPanel({
+  catalog,
+  sets,
+  onSpawn,
+  onCreate,
+  onEdit,
+  onDelete,
+  onImport,
+  onExport,
+  onGenerate,
+  onCreateSet,
+  onEditSet,
+  onDeleteSet,
+}: {
+  catalog: ItemTemplate[];
+  sets: ItemSet[];
+  onSpawn: (template: ItemTemplate) => void;
+  onCreate: () => void;
+  onEdit: (template: ItemTemplate) => void;
+  onDelete: (template: ItemTemplate) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onGenerate: () => void;
+  onCreateSet: () => void;
+  onEditSet: (set: ItemSet) => void;
+  onDeleteSet: (set: ItemSet) => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState<ItemCategory | "">("");
+  const results = searchCatalog(catalog, query, category);
+
+  return (
+    <div className="border-2 rounded p-4 bg-white w-full sm:w-80 text-left self-start">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h2 className="text-lg font-semibold mr-auto">Catalog</h2>
+        <button
+          onClick={onCreate}
+          className="text-sm text-green-700 hover:underline"
+        >
+          + Template
+        </button>
+        <label className="text-sm text-indigo-600 hover:underline cursor-pointer">
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          onClick={onExport}
+          disabled={catalog.length === 0}
+          className="text-sm text-indigo-600 hover:underline disabled:opacity-40"
+        >
+          Export
+        </button>
+        <button
+          onClick={onGenerate}
+          disabled={catalog.length === 0}
+          title="Roll random items from these templates"
+          className="text-sm text-indigo-600 hover:underline disabled:opacity-40"
+        >
+          Loot…
+        </button>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <input
+          className="border p-1 rounded flex-1 min-w-0 text-sm"
+          placeholder="Search templates"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select
+          className="border p-1 rounded text-sm"
+          value={category}
+          onChange={(e) => setCategory(e.target.value as ItemCategory | "")}
+        >
+          <option value="">All</option>
+          {ITEM_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {CATEGORY_LABELS[c]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {catalog.length === 0 && (
+        <p className="text-gray-500 text-sm">
+          No templates yet. Create one or import a catalog file.
+        </p>
+      )}
+      {catalog.length > 0 && results.length === 0 && (
+        <p className="text-gray-500 text-sm">No templates match.</p>
+      )}
+
+      <ul className="max-h-80 overflow-auto">
+        {results.map((t) => (
+          <li key={t.id} className="flex items-center gap-2 text-sm mb-1">
+            <span className="truncate mr-auto" title={t.description}>
+              {t.icon ?? "🎲"} {t.name}
+            </span>
+            <button
+              onClick={() => onSpawn(t)}
+              className="text-green-700 hover:underline"
+            >
+              Spawn
+            </button>
+            <button
+              onClick={() => onEdit(t)}
+              className="text-indigo-600 hover:underline"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => onDelete(t)}
+              className="text-red-600 hover:underline"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-2 mt-4 mb-2">
+        <h3 className="font-semibold mr-auto">Item sets</h3>
+        <button
+          onClick={onCreateSet}
+          className="text-sm text-green-700 hover:underline"
+        >
+          + Set
+        </button>
+      </div>
+      {sets.length === 0 && (
+        <p className="text-gray-500 text-sm">
+          No sets yet. Items join one through their "Item set" field.
+        </p>
+      )}
+      <ul className="max-h-40 overflow-auto">
+        {sets.map((s) => (
+          <li key={s.id} className="flex items-center gap-2 text-sm mb-1">
+            <span className="truncate mr-auto">
+              {s.name}{" "}
+              <span className="text-gray-500">
+                ({catalog.filter((t) => t.set === s.id).length} templates)
+              </span>
+            </span>
+            <button
+              onClick={() => onEditSet(s)}
+              className="text-indigo-600 hover:underline"
+            >
+              Edit
+            </button>
+            <button
+              onClick={() => onDeleteSet(s)}
+              className="text-red-600 hover:underline"
+            >
+              Delete
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
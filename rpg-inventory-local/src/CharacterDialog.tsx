@@ -0,0 +1,111 @@
+import { useState } from "react";
+import {
+  ATTRIBUTES,
+  ATTRIBUTE_LABELS,
+  baseAttributes,
+  levelOf,
+} from "./requirements.ts";
+import type { Character } from "./types.ts";
+
+type Progress = Pick<Character, "level" | "attributes" | "characterClass">;
+
+/**
+ * Edits the level, class and base attributes that item requirements are
+ * checked against.
+ */
+export default function CharacterDialog({
+  character,
+  onSave,
+  onCancel,
+}: {
+  character: Character;
+  onSave: (progress: Progress) => void;
+  onCancel: () => void;
+}) {
+  const [level, setLevel] = useState(levelOf(character));
+  const [characterClass, setCharacterClass] = useState(
+    character.characterClass ?? ""
+  );
+  const [attributes, setAttributes] = useState(baseAttributes(character));
+
+  const whole = (value: string, min: number) =>
+    Math.max(min, Math.floor(Number(value)) || min);
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] bg-black/40 flex items-center justify-center p-4"
+      onMouseDown={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <form
+        className="bg-white text-left rounded shadow-xl p-4 w-full max-w-sm max-h-full overflow-auto flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onSave({
+            level,
+            characterClass: characterClass.trim() || undefined,
+            attributes,
+          });
+        }}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      >
+        <h2 className="text-lg font-semibold">{character.name}</h2>
+
+        <label className="flex items-center gap-2 text-sm">
+          Level
+          <input
+            autoFocus
+            type="number"
+            min={1}
+            className="border p-1 rounded w-16"
+            value={level}
+            onChange={(e) => setLevel(whole(e.target.value, 1))}
+          />
+        </label>
+
+        <label className="flex items-center gap-2 text-sm">
+          Class
+          <input
+            className="border p-1 rounded flex-1 min-w-0"
+            placeholder="None"
+            value={characterClass}
+            onChange={(e) => setCharacterClass(e.target.value)}
+          />
+        </label>
+
+        {ATTRIBUTES.map((a) => (
+          <label key={a} className="flex items-center gap-2 text-sm">
+            <span className="w-24">{ATTRIBUTE_LABELS[a]}</span>
+            <input
+              type="number"
+              min={0}
+              className="border p-1 rounded w-16"
+              value={attributes[a]}
+              onChange={(e) =>
+                setAttributes((prev) => ({
+                  ...prev,
+                  [a]: whole(e.target.value, 0),
+                }))
+              }
+            />
+          </label>
+        ))}
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded border"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="bg-green-600 text-white px-4 py-2 rounded"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useDroppable } from "@dnd-kit/core";
+import { characterDropId } from "./characters.ts";
+import type { Character } from "./types.ts";
+
+function CharacterTab({
+  character,
+  active,
+  onSelect,
+}: {
+  character: Character;
+  active: boolean;
+  onSelect: () => void;
+}) {
+  // Other characters' tabs accept items dragged from the active one
+  const { setNodeRef, isOver } = useDroppable({
+    id: characterDropId(character.id),
+    disabled: active,
+  });
+  return (
+    <button
+      ref={setNodeRef}
+      onClick={onSelect}
+      className={`px-3 py-1 rounded border-2 text-sm ${
+        active
+          ? "border-indigo-600 bg-indigo-600 text-white"
+          : isOver
+            ? "border-green-500 bg-green-50"
+            : "border-gray-300 bg-white"
+      }`}
+    >
+      {character.name}
+    </button>
+  );
+}
+
+export default function CharacterRoster({
+  characters,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: {
+  characters: Character[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-6">
+      {characters.map((c) => (
+        <CharacterTab
+          key={c.id}
+          character={c}
+          active={c.id === activeId}
+          onSelect={() => onSelect(c.id)}
+        />
+      ))}
+      <button
+        onClick={onCreate}
+        className="text-sm text-green-700 hover:underline"
+      >
+        + New
+      </button>
+      <button
+        onClick={onRename}
+        className="text-sm text-indigo-600 hover:underline"
+      >
+        Rename
+      </button>
+      <button
+        onClick={onDelete}
+        disabled={characters.length <= 1}
+        className="text-sm text-red-600 hover:underline disabled:opacity-40"
+      >
+        Delete
+      </button>
+    </div>
+  );
+}
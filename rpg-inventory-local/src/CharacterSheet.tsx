@@ -0,0 +1,138 @@
+import {
+  ATTRIBUTES,
+  ATTRIBUTE_LABELS,
+  type Attribute,
+} from "./requirements.ts";
+import type { StatTotal } from "./stats.ts";
+import {
+  ENCUMBRANCE_LABELS,
+  formatWeight,
+  type Encumbrance,
+} from "./weight.ts";
+
+const formatSigned = (n: number) => (n > 0 ? `+${n}` : String(n));
+
+const ENCUMBRANCE_CLASSES: Record<Encumbrance, string> = {
+  normal: "text-gray-600",
+  burdened: "text-amber-600",
+  overloaded: "text-red-600 font-semibold",
+};
+
+export default function CharacterSheet({
+  totals,
+  carried,
+  carryLimit,
+  encumbrance,
+  onSetCarryLimit,
+  wallet,
+  onAdjustWallet,
+  level,
+  characterClass,
+  attributes,
+  unusable,
+  onEditProgress,
+}: {
+  totals: StatTotal[];
+  carried: number;
+  carryLimit?: number;
+  encumbrance: Encumbrance;
+  onSetCarryLimit: () => void;
+  // Already formatted in coins
+  wallet: string;
+  onAdjustWallet: () => void;
+  level: number;
+  characterClass?: string;
+  attributes: Record<Attribute, number>;
+  // Equipped items whose requirements the character no longer meets
+  unusable: { name: string; unmet: string[] }[];
+  onEditProgress: () => void;
+}) {
+  return (
+    <div className="border-2 rounded p-4 bg-white w-full sm:w-64 text-left self-start">
+      <h2 className="text-lg font-semibold mb-2">Character</h2>
+
+      <div className="flex justify-between items-baseline text-sm">
+        <span>
+          Level {level}
+          {characterClass && ` ${characterClass}`}
+        </span>
+        <button
+          onClick={onEditProgress}
+          className="text-indigo-600 hover:underline"
+        >
+          Edit…
+        </button>
+      </div>
+      <div className="text-xs text-gray-600 mb-2">
+        {ATTRIBUTES.map((a) => `${ATTRIBUTE_LABELS[a]} ${attributes[a]}`).join(
+          " · "
+        )}
+      </div>
+
+      {unusable.length > 0 && (
+        <ul className="text-xs text-red-600 mb-2">
+          {unusable.map((u, i) => (
+            <li key={i}>
+              Can't use {u.name}: needs {u.unmet.join(", ")}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-between items-baseline text-sm mb-2">
+        <span>
+          Carried {formatWeight(carried)}
+          {carryLimit !== undefined && ` / ${formatWeight(carryLimit)}`}
+          {" · "}
+          <span className={ENCUMBRANCE_CLASSES[encumbrance]}>
+            {ENCUMBRANCE_LABELS[encumbrance]}
+          </span>
+        </span>
+        <button
+          onClick={onSetCarryLimit}
+          className="text-indigo-600 hover:underline"
+        >
+          Limit…
+        </button>
+      </div>
+
+      <div className="flex justify-between items-baseline text-sm mb-2">
+        <span>Wallet {wallet}</span>
+        <button
+          onClick={onAdjustWallet}
+          className="text-indigo-600 hover:underline"
+        >
+          Adjust…
+        </button>
+      </div>
+
+      {totals.length === 0 && (
+        <p className="text-gray-500 text-sm">Equip items to see stat totals.</p>
+      )}
+
+      {totals.map((stat) => (
+        <details key={stat.key} className="mb-1 text-sm">
+          <summary className="flex justify-between cursor-pointer">
+            <span className="font-medium">{stat.key}</span>
+            <span>
+              {stat.total !== null ? stat.total : stat.values.join(", ")}
+            </span>
+          </summary>
+          <ul className="ml-4 text-gray-600">
+            {stat.contributions.map((c, i) => (
+              <li key={i} className="flex justify-between">
+                <span>
+                  {c.source}
+                  {c.item && ` · ${c.item.name}`}
+                </span>
+                <span>
+                  {typeof c.value === "number" ? formatSigned(c.value) : c.value}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+}
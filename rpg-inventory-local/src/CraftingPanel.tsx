@@ -0,0 +1,102 @@
+import {
+  checkRecipe,
+  ingredientName,
+  isCraftable,
+  missingOutputs,
+  type Recipe,
+} from "./crafting.ts";
+import type { Character, ItemTemplate } from "./types.ts";
+
+/**
+ * Recipes the active character can make from storage come first; the rest
+ * show what is still missing. Recipes are added by importing a catalog file.
+ */
+export default function CraftingPanel({
+  recipes,
+  catalog,
+  character,
+  onCraft,
+  onDelete,
+}: {
+  recipes: Recipe[];
+  catalog: ItemTemplate[];
+  character: Character;
+  onCraft: (recipe: Recipe) => void;
+  onDelete: (recipe: Recipe) => void;
+}) {
+  const nameOf = (templateId: string) =>
+    catalog.find((t) => t.id === templateId)?.name ?? "a deleted template";
+  const rows = recipes
+    .map((recipe) => {
+      const checks = checkRecipe(character, recipe);
+      const broken = missingOutputs(recipe, catalog).length > 0;
+      return { recipe, checks, ready: isCraftable(checks) && !broken, broken };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.ready) - Number(a.ready) ||
+        a.recipe.name.localeCompare(b.recipe.name)
+    );
+
+  return (
+    <div className="border-2 rounded p-4 bg-white w-full sm:w-80 text-left self-start">
+      <h2 className="text-lg font-semibold mb-2">Crafting</h2>
+
+      {recipes.length === 0 && (
+        <p className="text-gray-500 text-sm">
+          No recipes yet. Import a catalog file that has some.
+        </p>
+      )}
+
+      <ul className="max-h-80 overflow-auto">
+        {rows.map(({ recipe, checks, ready, broken }) => (
+          <li key={recipe.id} className="text-sm mb-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium truncate mr-auto">
+                {recipe.name}
+              </span>
+              <button
+                onClick={() => onCraft(recipe)}
+                disabled={!ready}
+                className="text-green-700 hover:underline disabled:opacity-40"
+              >
+                Craft
+              </button>
+              <button
+                onClick={() => onDelete(recipe)}
+                className="text-red-600 hover:underline"
+              >
+                Delete
+              </button>
+            </div>
+            <ul className="ml-3 text-xs">
+              {checks.map(({ ingredient, have }, i) => (
+                <li
+                  key={i}
+                  className={
+                    have < ingredient.quantity
+                      ? "text-red-600"
+                      : "text-gray-600"
+                  }
+                >
+                  {ingredientName(ingredient, catalog)} {have}/
+                  {ingredient.quantity}
+                </li>
+              ))}
+              <li className={broken ? "text-red-600" : "text-gray-600"}>
+                Makes{" "}
+                {recipe.outputs
+                  .map(
+                    (o) =>
+                      nameOf(o.templateId) +
+                      (o.quantity > 1 ? ` ×${o.quantity}` : "")
+                  )
+                  .join(", ")}
+              </li>
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
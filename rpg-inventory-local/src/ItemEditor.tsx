@@ -0,0 +1,577 @@
+import { useState } from "react";
+import { formatMoney, parseMoney, type Denomination } from "./currency.ts";
+import { STORAGE_GRID } from "./grid.ts";
+import { RARITIES, RARITY_LABELS, type Rarity } from "./rarity.ts";
+import {
+  ATTRIBUTES,
+  ATTRIBUTE_LABELS,
+  type Attribute,
+} from "./requirements.ts";
+import type { ItemSet } from "./sets.ts";
+import { CATEGORY_LABELS, ITEM_CATEGORIES, type ItemCategory } from "./slots.ts";
+import StatRowsEditor from "./StatRowsEditor.tsx";
+import {
+  fromStatRows,
+  toStatRows,
+  validateStatRows,
+  type StatRow,
+} from "./statRows.ts";
+import type { Item } from "./types.ts";
+
+type Draft = {
+  name: string;
+  icon: string;
+  description: string;
+  category: ItemCategory | "";
+  rarity: Rarity;
+  // Set id, blank for none
+  set: string;
+  width: number;
+  height: number;
+  quantity: number;
+  maxStack: number;
+  // Blank for an item without weight
+  weight: string;
+  // Blank for an item worth nothing; written in coins, e.g. "1 gp 5 sp"
+  value: string;
+  // Both blank for an item that never wears out
+  durability: string;
+  maxDurability: string;
+  sockets: number;
+  // Requirements to equip; blank for none, classes comma-separated
+  minLevel: string;
+  minAttributes: Record<Attribute, string>;
+  classes: string;
+  container: boolean;
+  // Blank for a bag that takes any weight
+  capacity: string;
+  stats: StatRow[];
+};
+
+// Sizes and stack counts are whole numbers of at least 1, as saves require
+const positiveInt = (value: string) =>
+  Math.max(1, Math.floor(Number(value)) || 1);
+
+function toDraft(
+  item: Item | undefined,
+  denominations: Denomination[]
+): Draft {
+  return {
+    name: item?.name ?? "",
+    icon: item?.icon ?? "",
+    description: item?.description ?? "",
+    category: item?.category ?? "",
+    rarity: item?.rarity ?? "common",
+    set: item?.set ?? "",
+    width: item?.size?.w ?? 1,
+    height: item?.size?.h ?? 1,
+    quantity: item?.quantity ?? 1,
+    maxStack: item?.maxStack ?? 1,
+    weight: item?.weight === undefined ? "" : String(item.weight),
+    value:
+      item?.value === undefined ? "" : formatMoney(item.value, denominations),
+    durability: item?.durability ? String(item.durability.current) : "",
+    maxDurability: item?.durability ? String(item.durability.max) : "",
+    sockets: item?.sockets ?? 0,
+    minLevel: String(item?.requirements?.level ?? ""),
+    minAttributes: Object.fromEntries(
+      ATTRIBUTES.map((a) => [
+        a,
+        String(item?.requirements?.attributes?.[a] ?? ""),
+      ])
+    ) as Record<Attribute, string>,
+    classes: item?.requirements?.classes?.join(", ") ?? "",
+    container: item?.container !== undefined,
+    capacity:
+      item?.container?.capacity === undefined
+        ? ""
+        : String(item.container.capacity),
+    stats: toStatRows(item?.stats),
+  };
+}
+
+// Error messages keyed by field; stat rows use "stat.<index>"
+function validate(
+  draft: Draft,
+  denominations: Denomination[],
+  // Gems already socketed into the item being edited
+  filled: number,
+  // Items from older saves may keep fitting every slot; new ones may not
+  anySlot: boolean
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!draft.name.trim()) errors.name = "Name is required";
+  if (!draft.category && !anySlot) {
+    errors.category = "Choose what kind of item this is";
+  }
+  if (draft.width > STORAGE_GRID.cols || draft.height > STORAGE_GRID.rows) {
+    errors.size = `At most ${STORAGE_GRID.cols}×${STORAGE_GRID.rows}`;
+  }
+  // A max stack of 1 saves no quantity, so a larger one would be dropped
+  if (draft.quantity > draft.maxStack) {
+    errors.quantity =
+      draft.maxStack > 1
+        ? "Quantity can't exceed the max stack"
+        : "Split or delete the extra units before making this unstackable";
+  }
+  const weight = Number(draft.weight);
+  if (draft.weight.trim() !== "" && !(Number.isFinite(weight) && weight >= 0)) {
+    errors.weight = "Weight must be a number of zero or more";
+  }
+  const value = parseMoney(draft.value, denominations);
+  if (draft.value.trim() !== "" && !(value !== null && value >= 0)) {
+    const example = formatMoney(125, denominations);
+    errors.value = `Value must be coins such as "${example}"`;
+  }
+  const durability = Number(draft.durability || draft.maxDurability);
+  const maxDurability = Number(draft.maxDurability);
+  if (draft.maxDurability.trim() !== "") {
+    if (!(Number.isInteger(maxDurability) && maxDurability > 0)) {
+      errors.durability = "Max durability must be a positive whole number";
+    } else if (
+      !(Number.isInteger(durability) && durability >= 0) ||
+      durability > maxDurability
+    ) {
+      errors.durability = `Durability must be a whole number from 0 to ${maxDurability}`;
+    }
+  } else if (draft.durability.trim() !== "") {
+    errors.durability = "Set a max durability too";
+  }
+  if (draft.sockets < filled) {
+    errors.sockets = `${filled} gems are socketed; remove some first`;
+  } else if (
+    draft.sockets > 0 &&
+    (draft.maxStack > 1 || draft.category === "gem")
+  ) {
+    errors.sockets = "Stacks and gems can't have sockets";
+  }
+  const minLevel = Number(draft.minLevel);
+  if (
+    draft.minLevel.trim() !== "" &&
+    !(Number.isInteger(minLevel) && minLevel > 0)
+  ) {
+    errors.requirements = "Level must be a positive whole number";
+  }
+  for (const a of ATTRIBUTES) {
+    const min = Number(draft.minAttributes[a]);
+    if (
+      draft.minAttributes[a].trim() !== "" &&
+      !(Number.isFinite(min) && min >= 0)
+    ) {
+      errors.requirements = `${ATTRIBUTE_LABELS[a]} must be zero or more`;
+    }
+  }
+  const capacity = Number(draft.capacity);
+  if (
+    draft.container &&
+    draft.capacity.trim() !== "" &&
+    !(Number.isFinite(capacity) && capacity >= 0)
+  ) {
+    errors.capacity = "Capacity must be a number of zero or more";
+  } else if (draft.container && draft.maxStack > 1) {
+    errors.capacity = "Containers can't stack";
+  }
+  return { ...errors, ...validateStatRows(draft.stats) };
+}
+
+function requirementsFromDraft(draft: Draft): Item["requirements"] {
+  const attributes: Partial<Record<Attribute, number>> = {};
+  for (const a of ATTRIBUTES) {
+    const min = draft.minAttributes[a].trim();
+    if (min !== "") attributes[a] = Number(min);
+  }
+  const classes = draft.classes
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  const requirements = {
+    level: draft.minLevel.trim() === "" ? undefined : Number(draft.minLevel),
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    classes: classes.length > 0 ? classes : undefined,
+  };
+  return Object.values(requirements).some((r) => r !== undefined)
+    ? requirements
+    : undefined;
+}
+
+function fromDraft(
+  draft: Draft,
+  denominations: Denomination[],
+  item?: Item
+): Item {
+  const stackable = draft.maxStack > 1;
+  return {
+    ...item,
+    id: item?.id ?? crypto.randomUUID(),
+    name: draft.name.trim(),
+    icon: draft.icon || undefined,
+    description: draft.description,
+    category: draft.category || undefined,
+    rarity: draft.rarity === "common" ? undefined : draft.rarity,
+    set: draft.set || undefined,
+    size:
+      draft.width > 1 || draft.height > 1
+        ? { w: draft.width, h: draft.height }
+        : undefined,
+    quantity: stackable ? draft.quantity : undefined,
+    maxStack: stackable ? draft.maxStack : undefined,
+    weight: draft.weight.trim() === "" ? undefined : Number(draft.weight),
+    value:
+      draft.value.trim() === ""
+        ? undefined
+        : (parseMoney(draft.value, denominations) ?? undefined),
+    durability:
+      draft.maxDurability.trim() === ""
+        ? undefined
+        : {
+            current: Number(draft.durability || draft.maxDurability),
+            max: Number(draft.maxDurability),
+          },
+    sockets: draft.sockets > 0 ? draft.sockets : undefined,
+    requirements: requirementsFromDraft(draft),
+    container: draft.container
+      ? {
+          capacity:
+            draft.capacity.trim() === "" ? undefined : Number(draft.capacity),
+        }
+      : undefined,
+    stats: fromStatRows(draft.stats),
+  };
+}
+
+/**
+ * Modal form for creating an item (no `item`) or editing one in place.
+ * Catalog templates share the form, with `kind` only changing the wording.
+ */
+export default function ItemEditor({
+  item,
+  kind = "item",
+  denominations,
+  sets,
+  onSave,
+  onCancel,
+}: {
+  item?: Item;
+  kind?: "item" | "template";
+  denominations: Denomination[];
+  sets: ItemSet[];
+  onSave: (item: Item) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(() => toDraft(item, denominations));
+  const [submitted, setSubmitted] = useState(false);
+  const anySlot = item !== undefined && item.category === undefined;
+  const errors = validate(
+    draft,
+    denominations,
+    item?.socketed?.length ?? 0,
+    anySlot
+  );
+  const shown = submitted ? errors : {};
+
+  const update = (patch: Partial<Draft>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  function save() {
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+    onSave(fromDraft(draft, denominations, item));
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] bg-black/40 flex items-center justify-center p-4"
+      onMouseDown={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <form
+        className="bg-white text-left rounded shadow-xl p-4 w-full max-w-lg max-h-full overflow-auto flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      >
+        <h2 className="text-lg font-semibold">
+          {item ? `Edit ${item.name}` : `New ${kind}`}
+        </h2>
+
+        <div className="flex gap-2">
+          <input
+            autoFocus
+            className="border p-2 rounded flex-1"
+            placeholder="Item name"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+          <input
+            className="border p-2 rounded w-24"
+            placeholder="Icon (emoji)"
+            value={draft.icon}
+            onChange={(e) => update({ icon: e.target.value })}
+          />
+        </div>
+        {shown.name && <p className="text-sm text-red-600">{shown.name}</p>}
+
+        <textarea
+          className="border p-2 rounded"
+          placeholder="Description"
+          value={draft.description}
+          onChange={(e) => update({ description: e.target.value })}
+        />
+
+        <div className="flex gap-2">
+          <select
+            className="border p-2 rounded flex-1"
+            value={draft.category}
+            onChange={(e) =>
+              update({ category: e.target.value as ItemCategory | "" })
+            }
+          >
+            <option value="" disabled={!anySlot}>
+              {anySlot ? "Any slot" : "Choose a category…"}
+            </option>
+            {ITEM_CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {CATEGORY_LABELS[c]}
+              </option>
+            ))}
+          </select>
+          <select
+            className="border p-2 rounded"
+            aria-label="Rarity"
+            value={draft.rarity}
+            onChange={(e) => update({ rarity: e.target.value as Rarity })}
+          >
+            {RARITIES.map((r) => (
+              <option key={r} value={r}>
+                {RARITY_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {shown.category && (
+          <p className="text-sm text-red-600">{shown.category}</p>
+        )}
+
+        {(sets.length > 0 || draft.set) && (
+          <label className="flex items-center gap-2 text-sm">
+            Item set
+            <select
+              className="border p-1 rounded flex-1 min-w-0"
+              value={draft.set}
+              onChange={(e) => update({ set: e.target.value })}
+            >
+              <option value="">None</option>
+              {sets.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+              {draft.set && !sets.some((s) => s.id === draft.set) && (
+                <option value={draft.set}>Unknown set "{draft.set}"</option>
+              )}
+            </select>
+          </label>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          Grid size
+          <input
+            type="number"
+            min={1}
+            max={STORAGE_GRID.cols}
+            className="border p-1 rounded w-14"
+            value={draft.width}
+            onChange={(e) => update({ width: positiveInt(e.target.value) })}
+          />
+          ×
+          <input
+            type="number"
+            min={1}
+            max={STORAGE_GRID.rows}
+            className="border p-1 rounded w-14"
+            value={draft.height}
+            onChange={(e) => update({ height: positiveInt(e.target.value) })}
+          />
+        </label>
+        {shown.size && <p className="text-sm text-red-600">{shown.size}</p>}
+
+        <label className="flex items-center gap-2 text-sm">
+          Quantity
+          <input
+            type="number"
+            min={1}
+            className="border p-1 rounded w-16"
+            value={draft.quantity}
+            onChange={(e) => update({ quantity: positiveInt(e.target.value) })}
+          />
+          Max stack
+          <input
+            type="number"
+            min={1}
+            className="border p-1 rounded w-16"
+            value={draft.maxStack}
+            onChange={(e) => update({ maxStack: positiveInt(e.target.value) })}
+          />
+        </label>
+        {shown.quantity && (
+          <p className="text-sm text-red-600">{shown.quantity}</p>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          Weight
+          <input
+            className="border p-1 rounded w-20"
+            inputMode="decimal"
+            placeholder="None"
+            value={draft.weight}
+            onChange={(e) => update({ weight: e.target.value })}
+          />
+          <span className="text-gray-500">per unit</span>
+        </label>
+        {shown.weight && <p className="text-sm text-red-600">{shown.weight}</p>}
+
+        <label className="flex items-center gap-2 text-sm">
+          Value
+          <input
+            className="border p-1 rounded w-28"
+            placeholder="None"
+            value={draft.value}
+            onChange={(e) => update({ value: e.target.value })}
+          />
+          <span className="text-gray-500">per unit</span>
+        </label>
+        {shown.value && <p className="text-sm text-red-600">{shown.value}</p>}
+
+        <label className="flex items-center gap-2 text-sm">
+          Durability
+          <input
+            className="border p-1 rounded w-16"
+            inputMode="numeric"
+            placeholder="Full"
+            aria-label="Current durability"
+            value={draft.durability}
+            onChange={(e) => update({ durability: e.target.value })}
+          />
+          /
+          <input
+            className="border p-1 rounded w-16"
+            inputMode="numeric"
+            placeholder="None"
+            aria-label="Max durability"
+            value={draft.maxDurability}
+            onChange={(e) => update({ maxDurability: e.target.value })}
+          />
+        </label>
+        {shown.durability && (
+          <p className="text-sm text-red-600">{shown.durability}</p>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          Gem sockets
+          <input
+            type="number"
+            min={0}
+            className="border p-1 rounded w-16"
+            value={draft.sockets}
+            onChange={(e) =>
+              update({
+                sockets: Math.max(0, Math.floor(Number(e.target.value)) || 0),
+              })
+            }
+          />
+        </label>
+        {shown.sockets && (
+          <p className="text-sm text-red-600">{shown.sockets}</p>
+        )}
+
+        <div className="text-sm font-medium mt-2">Requirements</div>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <label className="flex items-center gap-1">
+            Level
+            <input
+              className="border p-1 rounded w-12"
+              inputMode="numeric"
+              placeholder="Any"
+              value={draft.minLevel}
+              onChange={(e) => update({ minLevel: e.target.value })}
+            />
+          </label>
+          {ATTRIBUTES.map((a) => (
+            <label key={a} className="flex items-center gap-1">
+              {ATTRIBUTE_LABELS[a]}
+              <input
+                className="border p-1 rounded w-12"
+                inputMode="numeric"
+                placeholder="Any"
+                value={draft.minAttributes[a]}
+                onChange={(e) =>
+                  update({
+                    minAttributes: {
+                      ...draft.minAttributes,
+                      [a]: e.target.value,
+                    },
+                  })
+                }
+              />
+            </label>
+          ))}
+        </div>
+        <input
+          className="border p-1 rounded text-sm"
+          placeholder="Classes that may equip it, e.g. Warrior, Paladin"
+          value={draft.classes}
+          onChange={(e) => update({ classes: e.target.value })}
+        />
+        {shown.requirements && (
+          <p className="text-sm text-red-600">{shown.requirements}</p>
+        )}
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={draft.container}
+            onChange={(e) => update({ container: e.target.checked })}
+          />
+          Container that holds other items
+          {draft.container && (
+            <input
+              className="border p-1 rounded w-20"
+              inputMode="decimal"
+              placeholder="Any"
+              aria-label="Capacity"
+              value={draft.capacity}
+              onChange={(e) => update({ capacity: e.target.value })}
+            />
+          )}
+        </label>
+        {shown.capacity && (
+          <p className="text-sm text-red-600">{shown.capacity}</p>
+        )}
+
+        <div className="text-sm font-medium mt-2">Stats</div>
+        <StatRowsEditor
+          rows={draft.stats}
+          errors={shown}
+          onChange={(stats) => update({ stats })}
+        />
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded border"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="bg-green-600 text-white px-4 py-2 rounded"
+          >
+            {item ? "Save" : kind === "template" ? "Add Template" : "Add Item"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from "react";
+
+export type ItemAction = { label: string; onSelect: () => void };
+
+/**
+ * "⋯" button opening a keyboard-navigable list of actions for one item,
+ * so everything drag and drop does can also be done without a pointer.
+ */
+export default function ItemMenu({
+  itemName,
+  actions,
+  className = "",
+}: {
+  itemName: string;
+  actions: ItemAction[];
+  className?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const trigger = useRef<HTMLButtonElement>(null);
+  const menu = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    menu.current?.querySelector<HTMLButtonElement>("button")?.focus();
+    const close = (e: MouseEvent) => {
+      if (!menu.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", close);
+    return () => document.removeEventListener("mousedown", close);
+  }, [open]);
+
+  function dismiss() {
+    setOpen(false);
+    trigger.current?.focus();
+  }
+
+  function onKeyDown(e: React.KeyboardEvent) {
+    const buttons = [
+      ...(menu.current?.querySelectorAll<HTMLButtonElement>("button") ?? []),
+    ];
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    const focus = (i: number) =>
+      buttons[(i + buttons.length) % buttons.length]?.focus();
+    switch (e.key) {
+      case "Escape":
+        dismiss();
+        break;
+      case "ArrowDown":
+        focus(index + 1);
+        break;
+      case "ArrowUp":
+        focus(index - 1);
+        break;
+      case "Home":
+        focus(0);
+        break;
+      case "End":
+        focus(buttons.length - 1);
+        break;
+      case "Tab":
+        setOpen(false);
+        return;
+      default:
+        return;
+    }
+    e.preventDefault();
+  }
+
+  return (
+    <span className={`relative inline-block ${className}`}>
+      <button
+        ref={trigger}
+        onClick={() => setOpen((o) => !o)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        aria-label={`Actions for ${itemName}`}
+        className="px-1 leading-none text-sm text-gray-700 hover:underline"
+      >
+        ⋯
+      </button>
+      {open && (
+        <ul
+          ref={menu}
+          role="menu"
+          aria-label={`Actions for ${itemName}`}
+          onKeyDown={onKeyDown}
+          className="absolute z-[1000] left-0 top-full mt-1 min-w-[10rem] bg-white border rounded shadow-lg py-1 text-left text-sm text-gray-900"
+        >
+          {actions.map((action, index) => (
+            <li key={index} role="none">
+              <button
+                role="menuitem"
+                onClick={() => {
+                  setOpen(false);
+                  trigger.current?.focus();
+                  action.onSelect();
+                }}
+                className="block w-full text-left px-3 py-1 hover:bg-indigo-50 focus:bg-indigo-100"
+              >
+                {action.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </span>
+  );
+}
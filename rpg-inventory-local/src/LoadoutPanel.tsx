@@ -0,0 +1,72 @@
+import { useState } from "react";
+import type { Loadout } from "./types.ts";
+
+export default function LoadoutPanel({
+  loadouts,
+  onSave,
+  onApply,
+  onDelete,
+}: {
+  loadouts: Loadout[];
+  onSave: (name: string) => void;
+  onApply: (loadout: Loadout) => void;
+  onDelete: (loadout: Loadout) => void;
+}) {
+  const [name, setName] = useState("");
+
+  function save() {
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName("");
+  }
+
+  return (
+    <div className="border-2 rounded p-4 bg-white w-full sm:w-64 text-left self-start">
+      <h2 className="text-lg font-semibold mb-2">Loadouts</h2>
+      <div className="flex gap-2 mb-2">
+        <input
+          className="border p-1 rounded flex-1 min-w-0 text-sm"
+          placeholder="Loadout name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+        />
+        <button
+          onClick={save}
+          className="bg-green-600 text-white px-2 py-1 rounded text-sm"
+        >
+          Save
+        </button>
+      </div>
+
+      {loadouts.length === 0 && (
+        <p className="text-gray-500 text-sm">
+          Save what you have equipped to swap back to it later.
+        </p>
+      )}
+
+      {loadouts.map((loadout) => (
+        <div
+          key={loadout.id}
+          className="flex items-center justify-between text-sm mb-1"
+        >
+          <span className="font-medium truncate">{loadout.name}</span>
+          <span className="shrink-0">
+            <button
+              onClick={() => onApply(loadout)}
+              className="text-indigo-600 hover:underline ml-2"
+            >
+              Equip
+            </button>
+            <button
+              onClick={() => onDelete(loadout)}
+              className="text-red-600 hover:underline ml-2"
+            >
+              Delete
+            </button>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
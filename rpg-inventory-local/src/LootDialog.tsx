@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import { generateLoot, randomSeed } from "./loot.ts";
+import { RARITY_LABELS, rarityOf } from "./rarity.ts";
+import type { Item, ItemTemplate } from "./types.ts";
+
+const MAX_LOOT = 20;
+
+/**
+ * Rolls a drop from the catalog templates. The seed is editable so a GM can
+ * replay a drop, and the preview is exactly what "Add" puts in storage.
+ */
+export default function LootDialog({
+  templates,
+  onAdd,
+  onCancel,
+}: {
+  templates: ItemTemplate[];
+  onAdd: (items: Item[], seed: string) => void;
+  onCancel: () => void;
+}) {
+  const [seed, setSeed] = useState(randomSeed);
+  const [count, setCount] = useState(3);
+  const loot = useMemo(
+    () => generateLoot(templates, seed, count),
+    [templates, seed, count]
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] bg-black/40 flex items-center justify-center p-4"
+      onMouseDown={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <form
+        className="bg-white text-left rounded shadow-xl p-4 w-full max-w-md max-h-full overflow-auto flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (loot.length > 0) onAdd(loot, seed);
+        }}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      >
+        <h2 className="text-lg font-semibold">Generate loot</h2>
+
+        <label className="flex items-center gap-2 text-sm">
+          Seed
+          <input
+            autoFocus
+            className="border p-1 rounded flex-1 min-w-0"
+            value={seed}
+            onChange={(e) => setSeed(e.target.value)}
+          />
+          <button
+            type="button"
+            onClick={() => setSeed(randomSeed())}
+            className="text-indigo-600 hover:underline"
+          >
+            Reroll
+          </button>
+        </label>
+
+        <label className="flex items-center gap-2 text-sm">
+          Items
+          <input
+            type="number"
+            min={1}
+            max={MAX_LOOT}
+            className="border p-1 rounded w-16"
+            value={count}
+            onChange={(e) =>
+              setCount(
+                Math.min(
+                  MAX_LOOT,
+                  Math.max(1, Math.floor(Number(e.target.value)) || 1)
+                )
+              )
+            }
+          />
+        </label>
+
+        <ul className="text-sm border rounded p-2">
+          {loot.map((item) => (
+            <li key={item.id} className="flex justify-between gap-2">
+              <span>
+                {item.icon ?? "🎲"} {item.name}
+              </span>
+              <span className="text-gray-500">
+                {RARITY_LABELS[rarityOf(item)]}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded border"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="bg-green-600 text-white px-4 py-2 rounded"
+          >
+            Add to storage
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
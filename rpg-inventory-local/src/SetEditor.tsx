@@ -0,0 +1,170 @@
+import { useState } from "react";
+import type { ItemSet } from "./sets.ts";
+import StatRowsEditor from "./StatRowsEditor.tsx";
+import {
+  fromStatRows,
+  toStatRows,
+  validateStatRows,
+  type StatRow,
+} from "./statRows.ts";
+
+type BonusDraft = { pieces: number; stats: StatRow[] };
+
+const positiveInt = (value: string) =>
+  Math.max(1, Math.floor(Number(value)) || 1);
+
+// Error messages keyed by field; tier stat rows use "bonus.<index>.<row>"
+function validate(name: string, bonuses: BonusDraft[]) {
+  const errors: Record<string, string> = {};
+  if (!name.trim()) errors.name = "Name is required";
+  const seen = new Set<number>();
+  bonuses.forEach((bonus, i) => {
+    if (seen.has(bonus.pieces)) {
+      errors[`bonus.${i}`] = `Another tier needs ${bonus.pieces} pieces too`;
+    }
+    seen.add(bonus.pieces);
+    Object.assign(errors, validateStatRows(bonus.stats, `bonus.${i}`));
+  });
+  return errors;
+}
+
+/**
+ * Modal form for creating an item set (no `set`) or editing one: its name
+ * and the bonus each number of equipped pieces unlocks.
+ */
+export default function SetEditor({
+  set,
+  onSave,
+  onCancel,
+}: {
+  set?: ItemSet;
+  onSave: (set: ItemSet) => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(set?.name ?? "");
+  const [bonuses, setBonuses] = useState<BonusDraft[]>(
+    () =>
+      set?.bonuses.map((b) => ({
+        pieces: b.pieces,
+        stats: toStatRows(b.stats),
+      })) ?? [{ pieces: 2, stats: [] }]
+  );
+  const [submitted, setSubmitted] = useState(false);
+  const errors = validate(name, bonuses);
+  const shown = submitted ? errors : {};
+
+  const updateBonus = (index: number, patch: Partial<BonusDraft>) =>
+    setBonuses((prev) =>
+      prev.map((b, i) => (i === index ? { ...b, ...patch } : b))
+    );
+
+  function save() {
+    setSubmitted(true);
+    if (Object.keys(errors).length > 0) return;
+    onSave({
+      id: set?.id ?? crypto.randomUUID(),
+      name: name.trim(),
+      bonuses: bonuses
+        .map((b) => ({ pieces: b.pieces, stats: fromStatRows(b.stats) }))
+        .sort((a, b) => a.pieces - b.pieces),
+    });
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[9999] bg-black/40 flex items-center justify-center p-4"
+      onMouseDown={(e) => e.target === e.currentTarget && onCancel()}
+    >
+      <form
+        className="bg-white text-left rounded shadow-xl p-4 w-full max-w-lg max-h-full overflow-auto flex flex-col gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save();
+        }}
+        onKeyDown={(e) => e.key === "Escape" && onCancel()}
+      >
+        <h2 className="text-lg font-semibold">
+          {set ? `Edit ${set.name}` : "New item set"}
+        </h2>
+
+        <input
+          autoFocus
+          className="border p-2 rounded"
+          placeholder="Set name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        {shown.name && <p className="text-sm text-red-600">{shown.name}</p>}
+
+        {bonuses.map((bonus, i) => (
+          <fieldset key={i} className="border rounded p-2 flex flex-col gap-2">
+            <div className="flex items-center gap-2 text-sm">
+              <label className="flex items-center gap-2 mr-auto">
+                With
+                <input
+                  type="number"
+                  min={1}
+                  className="border p-1 rounded w-14"
+                  value={bonus.pieces}
+                  onChange={(e) =>
+                    updateBonus(i, { pieces: positiveInt(e.target.value) })
+                  }
+                />
+                pieces equipped
+              </label>
+              <button
+                type="button"
+                onClick={() =>
+                  setBonuses((prev) => prev.filter((_, j) => j !== i))
+                }
+                className="text-red-600 hover:underline"
+              >
+                Remove tier
+              </button>
+            </div>
+            {shown[`bonus.${i}`] && (
+              <p className="text-sm text-red-600">{shown[`bonus.${i}`]}</p>
+            )}
+            <StatRowsEditor
+              rows={bonus.stats}
+              errors={shown}
+              prefix={`bonus.${i}`}
+              onChange={(stats) => updateBonus(i, { stats })}
+            />
+          </fieldset>
+        ))}
+        <button
+          type="button"
+          onClick={() =>
+            setBonuses((prev) => [
+              ...prev,
+              {
+                pieces: Math.max(1, ...prev.map((b) => b.pieces)) + 1,
+                stats: [],
+              },
+            ])
+          }
+          className="text-sm text-indigo-600 hover:underline self-start"
+        >
+          + Add tier
+        </button>
+
+        <div className="flex justify-end gap-2 mt-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 rounded border"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="bg-green-600 text-white px-4 py-2 rounded"
+          >
+            {set ? "Save" : "Add Set"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { emptyStatRow, type StatRow } from "./statRows.ts";
+
+/**
+ * Name, type and value for each stat, with rows added and removed in
+ * place. Errors are looked up as "<prefix>.<index>", as validateStatRows
+ * reports them.
+ */
+export default function StatRowsEditor({
+  rows,
+  errors,
+  prefix = "stat",
+  onChange,
+}: {
+  rows: StatRow[];
+  errors: Record<string, string>;
+  prefix?: string;
+  onChange: (rows: StatRow[]) => void;
+}) {
+  const updateRow = (index: number, patch: Partial<StatRow>) =>
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  return (
+    <>
+      {rows.map((row, i) => (
+        <div key={i}>
+          <div className="flex gap-2">
+            <input
+              className="border p-1 rounded flex-1 min-w-0"
+              placeholder="Stat"
+              value={row.key}
+              onChange={(e) => updateRow(i, { key: e.target.value })}
+            />
+            <select
+              className="border p-1 rounded"
+              value={row.type}
+              onChange={(e) =>
+                updateRow(i, { type: e.target.value as StatRow["type"] })
+              }
+            >
+              <option value="number">Number</option>
+              <option value="text">Text</option>
+            </select>
+            <input
+              className="border p-1 rounded flex-1 min-w-0"
+              placeholder="Value"
+              inputMode={row.type === "number" ? "decimal" : "text"}
+              value={row.value}
+              onChange={(e) => updateRow(i, { value: e.target.value })}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(rows.filter((_, j) => j !== i))}
+              className="text-sm text-red-600 hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+          {errors[`${prefix}.${i}`] && (
+            <p className="text-sm text-red-600">{errors[`${prefix}.${i}`]}</p>
+          )}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...rows, emptyStatRow()])}
+        className="text-sm text-indigo-600 hover:underline self-start"
+      >
+        + Add stat
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { CATEGORY_LABELS, ITEM_CATEGORIES, type ItemCategory } from "./slots.ts";
+import {
+  DEFAULT_VIEW,
+  isFiltered,
+  parseStatFilters,
+  type StorageSort,
+  type StorageView,
+} from "./storageView.ts";
+
+export default function StorageToolbar({
+  view,
+  statKeys,
+  showSort,
+  onChange,
+}: {
+  view: StorageView;
+  statKeys: string[];
+  showSort: boolean;
+  onChange: (view: StorageView) => void;
+}) {
+  const update = (patch: Partial<StorageView>) =>
+    onChange({ ...view, ...patch });
+  const { invalid } = parseStatFilters(view.statFilter);
+
+  return (
+    <div className="flex flex-col gap-2 mb-2 max-w-lg text-sm">
+      <div className="flex flex-wrap gap-2">
+        <input
+          className="border p-1 rounded flex-1 min-w-0"
+          placeholder="Search name or description"
+          value={view.query}
+          onChange={(e) => update({ query: e.target.value })}
+        />
+        <select
+          className="border p-1 rounded"
+          value={view.category}
+          onChange={(e) =>
+            update({ category: e.target.value as ItemCategory | "" })
+          }
+        >
+          <option value="">All categories</option>
+          {ITEM_CATEGORIES.map((c) => (
+            <option key={c} value={c}>
+              {CATEGORY_LABELS[c]}
+            </option>
+          ))}
+        </select>
+      </div>
+      <input
+        className="border p-1 rounded"
+        placeholder="Stat filter (e.g. attack >= 5, element = fire)"
+        value={view.statFilter}
+        onChange={(e) => update({ statFilter: e.target.value })}
+      />
+      {invalid.length > 0 && (
+        <p className="text-red-600">Can't read: {invalid.join(", ")}</p>
+      )}
+      {showSort && (
+        <div className="flex flex-wrap items-center gap-2">
+          Sort
+          <select
+            className="border p-1 rounded"
+            value={view.sort}
+            onChange={(e) => update({ sort: e.target.value as StorageSort })}
+          >
+            <option value="manual">Manual</option>
+            <option value="name">Name</option>
+            <option value="recent">Recently added</option>
+            {statKeys.map((k) => (
+              <option key={k} value={`stat:${k}`}>
+                {k}
+              </option>
+            ))}
+          </select>
+          {view.sort !== "manual" && (
+            <button
+              onClick={() => update({ descending: !view.descending })}
+              className="text-indigo-600 hover:underline"
+            >
+              {view.descending ? "Descending" : "Ascending"}
+            </button>
+          )}
+          {view.sort !== "manual" && (
+            <span className="text-gray-500">
+              Drag reordering is off while sorted
+            </span>
+          )}
+        </div>
+      )}
+      {isFiltered(view) && (
+        <button
+          onClick={() => onChange({ ...DEFAULT_VIEW, sort: view.sort })}
+          className="text-indigo-600 hover:underline self-start"
+        >
+          Clear filters
+        </button>
+      )}
+    </div>
+  );
+}
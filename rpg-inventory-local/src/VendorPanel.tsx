@@ -0,0 +1,138 @@
+import { useDroppable } from "@dnd-kit/core";
+import { formatMoney, type Denomination } from "./currency.ts";
+import type { ItemTemplate } from "./types.ts";
+import { VENDOR_ID, buyPrice, hasValue, type Vendor } from "./vendor.ts";
+
+const SHOWN_TRANSACTIONS = 10;
+
+/**
+ * Sells every catalog template that has a value and buys anything with a
+ * value dropped onto the panel.
+ */
+export default function VendorPanel({
+  catalog,
+  vendor,
+  denominations,
+  buyer,
+  wallet,
+  onBuy,
+  onChangeMultiplier,
+  onEditDenominations,
+  onClose,
+}: {
+  catalog: ItemTemplate[];
+  vendor: Vendor;
+  denominations: Denomination[];
+  // Name of the active character, who pays and gets paid
+  buyer: string;
+  wallet: number;
+  onBuy: (template: ItemTemplate) => void;
+  onChangeMultiplier: (
+    key: "buyMultiplier" | "sellMultiplier",
+    value: number
+  ) => void;
+  onEditDenominations: () => void;
+  onClose: () => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: VENDOR_ID });
+  const wares = catalog
+    .filter(hasValue)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const money = (amount: number) => formatMoney(amount, denominations);
+
+  return (
+    <div className="border-2 rounded p-4 bg-white w-full sm:w-80 text-left self-start">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h2 className="text-lg font-semibold mr-auto">Vendor</h2>
+        <button
+          onClick={onEditDenominations}
+          className="text-sm text-indigo-600 hover:underline"
+        >
+          Coins…
+        </button>
+        <button
+          onClick={onClose}
+          className="text-sm text-indigo-600 hover:underline"
+        >
+          Close
+        </button>
+      </div>
+
+      <p className="text-sm mb-2">
+        {buyer} has {money(wallet)}
+      </p>
+
+      <div className="flex gap-3 text-sm mb-2">
+        {(["buyMultiplier", "sellMultiplier"] as const).map((key) => (
+          <label key={key} className="flex items-center gap-1">
+            {key === "buyMultiplier" ? "Buy" : "Sell"} ×
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              className="border p-1 rounded w-16"
+              value={vendor[key]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (e.target.value !== "" && value >= 0) {
+                  onChangeMultiplier(key, value);
+                }
+              }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div
+        ref={setNodeRef}
+        className={`border-2 border-dashed rounded p-3 mb-3 text-sm text-center ${
+          isOver
+            ? "border-green-600 bg-green-50"
+            : "border-gray-300 text-gray-500"
+        }`}
+      >
+        Drop items here to sell them
+      </div>
+
+      {wares.length === 0 && (
+        <p className="text-gray-500 text-sm">
+          Give catalog templates a value to stock the vendor.
+        </p>
+      )}
+      <ul className="max-h-60 overflow-auto mb-3">
+        {wares.map((t) => {
+          const price = buyPrice(t, vendor);
+          return (
+            <li key={t.id} className="flex items-center gap-2 text-sm mb-1">
+              <span className="truncate mr-auto" title={t.description}>
+                {t.icon ?? "🎲"} {t.name}
+              </span>
+              <span className="text-gray-600">{money(price)}</span>
+              <button
+                onClick={() => onBuy(t)}
+                disabled={price > wallet}
+                className="text-green-700 hover:underline disabled:opacity-40"
+              >
+                Buy
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {vendor.log.length > 0 && (
+        <>
+          <h3 className="text-sm font-semibold mb-1">Transactions</h3>
+          <ul className="text-xs text-gray-600">
+            {vendor.log.slice(0, SHOWN_TRANSACTIONS).map((t) => (
+              <li key={t.id} title={new Date(t.at).toLocaleString()}>
+                {t.character} {t.kind === "buy" ? "bought" : "sold"} {t.item}
+                {t.quantity > 1 && ` ×${t.quantity}`} for {money(t.amount)}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
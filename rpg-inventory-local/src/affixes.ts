@@ -0,0 +1,133 @@
+import type { Rarity } from "./rarity.ts";
+import type { ItemCategory } from "./slots.ts";
+
+/**
+ * A name part that adds stats to a generated item. Prefixes go before the
+ * base name ("Sharp Sword"), suffixes after it ("Sword of the Bear").
+ */
+export type Affix = {
+  id: string;
+  kind: "prefix" | "suffix";
+  name: string;
+  // Inclusive range rolled for each stat, before the rarity multiplier
+  stats: Record<string, [min: number, max: number]>;
+  // Categories the affix can roll on; any when missing
+  categories?: ItemCategory[];
+};
+
+const WEAPONS: ItemCategory[] = ["oneHand", "twoHand"];
+const ARMOR: ItemCategory[] = [
+  "head",
+  "body",
+  "legs",
+  "hands",
+  "feet",
+  "cloak",
+  "offHand",
+];
+
+export const AFFIXES: Affix[] = [
+  {
+    id: "sturdy",
+    kind: "prefix",
+    name: "Sturdy",
+    stats: { defense: [1, 3] },
+    categories: ARMOR,
+  },
+  {
+    id: "sharp",
+    kind: "prefix",
+    name: "Sharp",
+    stats: { attack: [1, 3] },
+    categories: WEAPONS,
+  },
+  {
+    id: "heavy",
+    kind: "prefix",
+    name: "Heavy",
+    stats: { attack: [3, 6], speed: [-3, -1] },
+    categories: ["twoHand"],
+  },
+  {
+    id: "flaming",
+    kind: "prefix",
+    name: "Flaming",
+    stats: { fire: [2, 6] },
+    categories: WEAPONS,
+  },
+  {
+    id: "swift",
+    kind: "prefix",
+    name: "Swift",
+    stats: { speed: [2, 5] },
+  },
+  {
+    id: "glowing",
+    kind: "prefix",
+    name: "Glowing",
+    stats: { magic: [1, 4] },
+  },
+  {
+    id: "bear",
+    kind: "suffix",
+    name: "of the Bear",
+    stats: { strength: [1, 3] },
+  },
+  {
+    id: "fox",
+    kind: "suffix",
+    name: "of the Fox",
+    stats: { evasion: [1, 4] },
+  },
+  {
+    id: "vitality",
+    kind: "suffix",
+    name: "of Vitality",
+    stats: { health: [5, 15] },
+  },
+  {
+    id: "owl",
+    kind: "suffix",
+    name: "of the Owl",
+    stats: { wisdom: [1, 3] },
+  },
+  {
+    id: "warding",
+    kind: "suffix",
+    name: "of Warding",
+    stats: { defense: [2, 4] },
+    categories: ARMOR,
+  },
+  {
+    id: "fortune",
+    kind: "suffix",
+    name: "of Fortune",
+    stats: { luck: [1, 2] },
+  },
+];
+
+// How often each rarity drops, relative to the others
+export const RARITY_WEIGHTS: Record<Rarity, number> = {
+  common: 50,
+  uncommon: 30,
+  rare: 14,
+  epic: 5,
+  legendary: 1,
+};
+
+export const RARITY_AFFIX_COUNTS: Record<Rarity, number> = {
+  common: 0,
+  uncommon: 1,
+  rare: 2,
+  epic: 3,
+  legendary: 4,
+};
+
+// Scales every affix roll
+export const RARITY_POWER: Record<Rarity, number> = {
+  common: 1,
+  uncommon: 1,
+  rare: 1.2,
+  epic: 1.5,
+  legendary: 2,
+};
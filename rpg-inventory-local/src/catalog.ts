@@ -0,0 +1,144 @@
+import { CATEGORY_LABELS, type ItemCategory } from "./slots.ts";
+import type { Recipe } from "./crafting.ts";
+import {
+  SaveFormatError,
+  downloadJson,
+  validateItem,
+  validateItemSet,
+  validateRecipe,
+} from "./saveFormat.ts";
+import type { ItemSet } from "./sets.ts";
+import type { Item, ItemTemplate } from "./types.ts";
+
+/**
+ * Catalog files wrap the templates so they can't be mistaken for a save.
+ * Recipes and item sets travel with the templates they use, and may be
+ * left out:
+ *
+ *   {
+ *     "type": "rpg-inventory-catalog",
+ *     "version": 1,
+ *     "templates": ItemTemplate[],
+ *     "recipes"?: [{
+ *       "id": string,
+ *       "name": string,
+ *       // each needs either a template id or a category
+ *       "ingredients": [{ "templateId" | "category": string, "quantity": n }],
+ *       "outputs": [{ "templateId": string, "quantity": n }]
+ *     }],
+ *     "sets"?: [{
+ *       "id": string,       // what member templates put in their "set"
+ *       "name": string,
+ *       "bonuses": [{ "pieces": n, "stats": Stats }]
+ *     }]
+ *   }
+ */
+const CATALOG_FILE_TYPE = "rpg-inventory-catalog";
+const CATALOG_FILE_VERSION = 1;
+
+export type CatalogContents = {
+  templates: ItemTemplate[];
+  recipes: Recipe[];
+  sets: ItemSet[];
+};
+
+// A fresh instance of `template` with its own id
+export function spawnItem(template: ItemTemplate): Item {
+  return { ...template, id: crypto.randomUUID(), templateId: template.id };
+}
+
+export function templateFromItem(item: Item): ItemTemplate {
+  const template: Item = { ...item, id: item.templateId ?? item.id };
+  delete template.templateId;
+  // Socketed gems are one-offs; every spawn would share their ids
+  delete template.socketed;
+  return template;
+}
+
+/**
+ * Templates whose name, description or category label contain `query`,
+ * optionally limited to one category.
+ */
+export function searchCatalog(
+  catalog: ItemTemplate[],
+  query: string,
+  category: ItemCategory | ""
+) {
+  const q = query.trim().toLowerCase();
+  return catalog
+    .filter((t) => !category || t.category === category)
+    .filter(
+      (t) =>
+        !q ||
+        [t.name, t.description ?? "", t.category ? CATEGORY_LABELS[t.category] : ""]
+          .join(" ")
+          .toLowerCase()
+          .includes(q)
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Imported templates and recipes replace existing ones with the same id
+export function mergeCatalog<T extends { id: string }>(
+  existing: T[],
+  incoming: T[]
+): T[] {
+  const ids = new Set(incoming.map((t) => t.id));
+  return [...existing.filter((t) => !ids.has(t.id)), ...incoming];
+}
+
+// Optional arrays of a catalog file, each entry checked by `validate`
+function optionalList(
+  value: unknown,
+  name: string,
+  validate: (value: unknown, path: string) => void
+) {
+  const list = value ?? [];
+  if (!Array.isArray(list)) {
+    throw new SaveFormatError(`${name} should be an array`);
+  }
+  list.forEach((x, i) => validate(x, `${name}[${i}]`));
+  return list;
+}
+
+export function parseCatalog(json: string): CatalogContents {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveFormatError("file is not valid JSON");
+  }
+  const file = data as {
+    type?: unknown;
+    version?: unknown;
+    templates?: unknown;
+    recipes?: unknown;
+    sets?: unknown;
+  };
+  if (file?.type !== CATALOG_FILE_TYPE) {
+    throw new SaveFormatError("file is not an item catalog");
+  }
+  if (file.version !== CATALOG_FILE_VERSION) {
+    throw new SaveFormatError(`unsupported catalog version ${file.version}`);
+  }
+  if (!Array.isArray(file.templates)) {
+    throw new SaveFormatError("templates should be an array");
+  }
+  file.templates.forEach((t, i) => validateItem(t, `templates[${i}]`));
+  return {
+    templates: file.templates as ItemTemplate[],
+    recipes: optionalList(file.recipes, "recipes", validateRecipe),
+    sets: optionalList(file.sets, "sets", validateItemSet),
+  };
+}
+
+export function downloadCatalog(contents: CatalogContents) {
+  downloadJson(
+    {
+      type: CATALOG_FILE_TYPE,
+      version: CATALOG_FILE_VERSION,
+      ...contents,
+    },
+    "rpg-catalog"
+  );
+}
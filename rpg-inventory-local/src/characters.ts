@@ -0,0 +1,101 @@
+import {
+  STORAGE_ID,
+  containerOf,
+  descendantsOf,
+  detach,
+  moveToContainer,
+} from "./containers.ts";
+import { emptySlots, isSlotId } from "./slots.ts";
+import type { Character } from "./types.ts";
+
+// Droppable ids of the roster tabs, so items can be dragged across
+export const CHARACTER_DROP_PREFIX = "character:";
+
+export const characterDropId = (id: string) => CHARACTER_DROP_PREFIX + id;
+
+export const characterIdFromDrop = (dropId: string) =>
+  dropId.startsWith(CHARACTER_DROP_PREFIX)
+    ? dropId.slice(CHARACTER_DROP_PREFIX.length)
+    : null;
+
+export function createCharacter(name: string): Character {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    items: [],
+    storageOrder: [],
+    containers: {},
+    slots: emptySlots(),
+    gridPositions: {},
+    loadouts: [],
+  };
+}
+
+/**
+ * Matches a saved character to the current SLOT_LAYOUT: new slots start
+ * empty, and whatever sat in a slot that no longer exists goes to storage.
+ */
+export function fitSlotLayout(character: Character): Character {
+  const slots = emptySlots();
+  const removed: string[] = [];
+  for (const [slot, id] of Object.entries(character.slots)) {
+    if (isSlotId(slot)) slots[slot] = id;
+    else if (id) removed.push(id);
+  }
+  const equipped = Object.values(slots);
+  const orphans = [...new Set(removed)].filter(
+    (id) =>
+      !equipped.includes(id) &&
+      containerOf(character, id) === null &&
+      character.items.some((i) => i.id === id)
+  );
+  return {
+    ...character,
+    slots,
+    storageOrder: [...character.storageOrder, ...orphans],
+  };
+}
+
+/**
+ * Moves an item, keeping its id, out of wherever it is in `from` (storage,
+ * a bag or an equipment slot) and onto the end of a container of `to`.
+ * A bag brings everything inside it along.
+ */
+export function transferItem(
+  from: Character,
+  to: Character,
+  itemId: string,
+  containerId = STORAGE_ID
+): [Character, Character] | null {
+  const item = from.items.find((i) => i.id === itemId);
+  if (!item || from.id === to.id) return null;
+
+  const moving = [itemId, ...descendantsOf(from, itemId)];
+  const rest = detach(from, itemId);
+  const containers = { ...rest.containers };
+  const carried: Character["containers"] = {};
+  for (const id of moving) {
+    if (!containers[id]) continue;
+    carried[id] = containers[id];
+    delete containers[id];
+  }
+
+  const received = moveToContainer(
+    {
+      ...to,
+      items: [...to.items, ...from.items.filter((i) => moving.includes(i.id))],
+      containers: { ...to.containers, ...carried },
+    },
+    itemId,
+    containerId
+  );
+  if (!received) return null;
+  return [
+    {
+      ...rest,
+      items: rest.items.filter((i) => !moving.includes(i.id)),
+      containers,
+    },
+    received,
+  ];
+}
@@ -0,0 +1,130 @@
+import { SLOT_IDS, allowedSlots, equipItem, type SlotId } from "./slots.ts";
+import { setModifiers, type ItemSet } from "./sets.ts";
+import { effectiveStats } from "./sockets.ts";
+import { computeTotals, type StatTotal } from "./stats.ts";
+import type { Item, SlotsState, Stats } from "./types.ts";
+
+export type StatDelta = {
+  key: string;
+  candidate?: string | number;
+  current?: string | number;
+  // candidate − current for numbers (a missing side counts as 0), else null
+  delta: number | null;
+};
+
+export type Comparison = {
+  slot: SlotId;
+  // What equipping the candidate there would send back to storage
+  replaced: Item[];
+  stats: StatDelta[];
+  // Character totals that would change, before → after
+  totals: StatDelta[];
+};
+
+// Numeric stats of several items summed; text stats keep the first value
+function combineStats(items: Item[]): Stats {
+  const combined: Stats = {};
+  for (const item of items) {
+    for (const [key, value] of Object.entries(effectiveStats(item))) {
+      const prev = combined[key];
+      combined[key] =
+        typeof prev === "number" && typeof value === "number"
+          ? prev + value
+          : (prev ?? value);
+    }
+  }
+  return combined;
+}
+
+function diff(candidate: Stats, current: Stats): StatDelta[] {
+  const keys = new Set([...Object.keys(candidate), ...Object.keys(current)]);
+  return [...keys].sort().map((key) => {
+    const a = candidate[key];
+    const b = current[key];
+    const numeric =
+      (a === undefined || typeof a === "number") &&
+      (b === undefined || typeof b === "number");
+    return {
+      key,
+      candidate: a,
+      current: b,
+      delta: numeric ? ((a as number) ?? 0) - ((b as number) ?? 0) : null,
+    };
+  });
+}
+
+const totalsAsStats = (totals: StatTotal[]): Stats =>
+  Object.fromEntries(
+    totals.map((t) => [t.key, t.total ?? t.values.join(", ")])
+  );
+
+// An uncategorized item fits every slot, so rather than one comparison per
+// slot it gets one where it most likely belongs: next to the equipped item
+// sharing the most stats with it, or else the first free slot
+function likeliestSlot(item: Item, slots: SlotsState, items: Item[]) {
+  const keys = Object.keys(effectiveStats(item));
+  let best: SlotId | undefined;
+  let bestShared = 0;
+  for (const k of SLOT_IDS) {
+    const other = items.find((i) => i.id === slots[k]);
+    if (!other) continue;
+    const shared = Object.keys(effectiveStats(other)).filter((key) =>
+      keys.includes(key)
+    ).length;
+    if (shared > bestShared) {
+      best = k;
+      bestShared = shared;
+    }
+  }
+  return best ?? SLOT_IDS.find((k) => !slots[k]) ?? SLOT_IDS[0];
+}
+
+/**
+ * What equipping `item` would change, per slot it could go into. Occupied
+ * slots are compared first; an item that only fits empty slots gets a single
+ * comparison against nothing, and an uncategorized one a single comparison
+ * for its likeliest slot. Slots with the same outcome (either hand for a
+ * two-hander) are listed once. Totals include the set bonuses gained or
+ * lost.
+ */
+export function compareWithEquipped(
+  item: Item,
+  slots: SlotsState,
+  items: Item[],
+  sets: ItemSet[] = []
+): Comparison[] {
+  if (SLOT_IDS.some((k) => slots[k] === item.id)) return [];
+  // Party stash items aren't among the character's own
+  const pool = items.some((i) => i.id === item.id) ? items : [...items, item];
+  const allowed = allowedSlots(item);
+  const occupied = allowed.filter((k) => slots[k]);
+  const candidates = !item.category
+    ? [likeliestSlot(item, slots, pool)]
+    : occupied.length > 0
+      ? occupied
+      : allowed.slice(0, 1);
+
+  const totalsWith = (equipped: SlotsState) =>
+    totalsAsStats(
+      computeTotals(equipped, pool, setModifiers(sets, equipped, pool))
+    );
+  const before = totalsWith(slots);
+  const seen = new Set<string>();
+  const comparisons: Comparison[] = [];
+  for (const slot of candidates) {
+    const equipped = equipItem(slots, item, slot, pool);
+    const key = JSON.stringify(equipped.slots);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const replaced = pool.filter((i) => equipped.bumped.includes(i.id));
+    const after = totalsWith(equipped.slots);
+    comparisons.push({
+      slot,
+      replaced,
+      stats: diff(effectiveStats(item), combineStats(replaced)),
+      totals: diff(after, before).filter((d) => d.candidate !== d.current),
+    });
+  }
+  return comparisons;
+}
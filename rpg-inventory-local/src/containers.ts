@@ -0,0 +1,138 @@
+import { SLOT_IDS } from "./slots.ts";
+import type { Character, Item } from "./types.ts";
+
+// Droppable ids: a character's own storage, the shared stash and open bags
+export const STORAGE_ID = "storage";
+export const STASH_ID = "stash";
+export const CONTAINER_DROP_PREFIX = "container:";
+
+export const containerDropId = (id: string) => CONTAINER_DROP_PREFIX + id;
+
+export const containerIdFromDrop = (dropId: string) =>
+  dropId.startsWith(CONTAINER_DROP_PREFIX)
+    ? dropId.slice(CONTAINER_DROP_PREFIX.length)
+    : null;
+
+export const isContainer = (item?: Item) => item?.container !== undefined;
+
+// Ids directly inside `containerId`: STORAGE_ID or a bag's item id
+export function contentsOf(character: Character, containerId: string) {
+  return containerId === STORAGE_ID
+    ? character.storageOrder
+    : (character.containers[containerId] ?? []);
+}
+
+// The container holding `itemId`, or null when it is equipped
+export function containerOf(character: Character, itemId: string) {
+  if (character.storageOrder.includes(itemId)) return STORAGE_ID;
+  for (const [id, contents] of Object.entries(character.containers)) {
+    if (contents.includes(itemId)) return id;
+  }
+  return null;
+}
+
+// Every id nested anywhere inside `itemId`, outermost first
+export function descendantsOf(character: Character, itemId: string): string[] {
+  return (character.containers[itemId] ?? []).flatMap((id) => [
+    id,
+    ...descendantsOf(character, id),
+  ]);
+}
+
+// A bag can't go into itself or into anything it holds
+export const wouldCycle = (
+  character: Character,
+  itemId: string,
+  containerId: string
+) =>
+  containerId === itemId ||
+  descendantsOf(character, itemId).includes(containerId);
+
+// `containerId` followed by the containers around it, innermost first
+export function containerChain(character: Character, containerId: string) {
+  const chain: string[] = [];
+  for (
+    let id: string | null = containerId;
+    id !== null && !chain.includes(id);
+    id = id === STORAGE_ID ? null : containerOf(character, id)
+  ) {
+    chain.push(id);
+  }
+  return chain;
+}
+
+/**
+ * Takes an item out of storage, every bag and every slot. A bag keeps its
+ * own contents, so they travel with it.
+ */
+export function detach(character: Character, itemId: string): Character {
+  const slots = { ...character.slots };
+  for (const k of SLOT_IDS) if (slots[k] === itemId) slots[k] = null;
+  const gridPositions = { ...character.gridPositions };
+  delete gridPositions[itemId];
+  return {
+    ...character,
+    storageOrder: character.storageOrder.filter((x) => x !== itemId),
+    containers: Object.fromEntries(
+      Object.entries(character.containers).map(([id, contents]) => [
+        id,
+        contents.filter((x) => x !== itemId),
+      ])
+    ),
+    slots,
+    gridPositions,
+  };
+}
+
+// Replaces what `containerId` holds
+function setContents(
+  character: Character,
+  containerId: string,
+  contents: string[]
+): Character {
+  return containerId === STORAGE_ID
+    ? { ...character, storageOrder: contents }
+    : {
+        ...character,
+        containers: { ...character.containers, [containerId]: contents },
+      };
+}
+
+/**
+ * Moves an item into a container before `index`, or onto its end.
+ * Returns null when that would put a bag inside itself.
+ */
+export function moveToContainer(
+  character: Character,
+  itemId: string,
+  containerId: string,
+  index?: number
+): Character | null {
+  if (wouldCycle(character, itemId, containerId)) return null;
+  const next = detach(character, itemId);
+  const contents = [...contentsOf(next, containerId)];
+  contents.splice(index ?? contents.length, 0, itemId);
+  return setContents(next, containerId, contents);
+}
+
+/**
+ * Empties a bag into the container around it, right where the bag sits;
+ * an equipped bag empties into storage.
+ */
+export function spill(character: Character, bagId: string): Character {
+  const contents = character.containers[bagId] ?? [];
+  const containers = { ...character.containers };
+  delete containers[bagId];
+  const next = { ...character, containers };
+  const parent = containerOf(next, bagId) ?? STORAGE_ID;
+  const around = [...contentsOf(next, parent)];
+  const at = around.indexOf(bagId);
+  around.splice(at === -1 ? around.length : at + 1, 0, ...contents);
+  return setContents(next, parent, around);
+}
+
+// Deletes an item; anything inside it spills out first
+export function removeItem(character: Character, itemId: string): Character {
+  const next = detach(spill(character, itemId), itemId);
+  return { ...next, items: next.items.filter((i) => i.id !== itemId) };
+}
@@ -0,0 +1,143 @@
+import { spawnItem } from "./catalog.ts";
+import { isContainer, removeItem } from "./containers.ts";
+import { CATEGORY_LABELS, type ItemCategory } from "./slots.ts";
+import { maxStackOf, quantityOf } from "./stacks.ts";
+import type { Character, Item, ItemTemplate } from "./types.ts";
+
+// Needs `quantity` units of one catalog template, or of any item in a category
+export type Ingredient =
+  | { templateId: string; quantity: number }
+  | { category: ItemCategory; quantity: number };
+
+export type Recipe = {
+  id: string;
+  name: string;
+  ingredients: Ingredient[];
+  // Each output spawns `quantity` units of a catalog template
+  outputs: { templateId: string; quantity: number }[];
+};
+
+export type IngredientCheck = {
+  ingredient: Ingredient;
+  // Units in storage that aren't already claimed by an earlier ingredient
+  have: number;
+  // What crafting would take, stack by stack
+  take: { id: string; count: number }[];
+};
+
+const matches = (item: Item, ingredient: Ingredient) =>
+  "templateId" in ingredient
+    ? item.templateId === ingredient.templateId
+    : item.category === ingredient.category;
+
+export function ingredientName(
+  ingredient: Ingredient,
+  catalog: ItemTemplate[]
+) {
+  return "templateId" in ingredient
+    ? (catalog.find((t) => t.id === ingredient.templateId)?.name ??
+        "Unknown item")
+    : `any ${CATEGORY_LABELS[ingredient.category]}`;
+}
+
+/**
+ * What storage holds towards each ingredient. Only loose items in storage
+ * count, never bags or what is packed in them. Template ingredients claim
+ * items before category ones, so "any weapon" can't eat the exact sword
+ * another ingredient asks for.
+ */
+export function checkRecipe(
+  character: Character,
+  recipe: Recipe
+): IngredientCheck[] {
+  const stored = character.storageOrder
+    .map((id) => character.items.find((i) => i.id === id))
+    .filter((i): i is Item => i !== undefined && !isContainer(i));
+  const claimed = new Map<string, number>();
+  const check = (ingredient: Ingredient): IngredientCheck => {
+    let have = 0;
+    const take: IngredientCheck["take"] = [];
+    for (const item of stored) {
+      if (!matches(item, ingredient)) continue;
+      const left = quantityOf(item) - (claimed.get(item.id) ?? 0);
+      const count = Math.min(left, ingredient.quantity - have);
+      if (count <= 0) continue;
+      have += count;
+      take.push({ id: item.id, count });
+      claimed.set(item.id, (claimed.get(item.id) ?? 0) + count);
+    }
+    return { ingredient, have, take };
+  };
+  const checks = new Map<Ingredient, IngredientCheck>();
+  for (const ingredient of recipe.ingredients) {
+    if ("templateId" in ingredient) checks.set(ingredient, check(ingredient));
+  }
+  for (const ingredient of recipe.ingredients) {
+    if (!checks.has(ingredient)) checks.set(ingredient, check(ingredient));
+  }
+  return recipe.ingredients.map((ingredient) => checks.get(ingredient)!);
+}
+
+export const isCraftable = (checks: IngredientCheck[]) =>
+  checks.every((c) => c.have >= c.ingredient.quantity);
+
+// Output templates that have since been deleted from the catalog
+export const missingOutputs = (recipe: Recipe, catalog: ItemTemplate[]) =>
+  recipe.outputs.filter((o) => !catalog.some((t) => t.id === o.templateId));
+
+// `count` units of a template, in as few full stacks as it allows
+function spawnUnits(template: ItemTemplate, count: number): Item[] {
+  if (maxStackOf(template) <= 1) {
+    return Array.from({ length: count }, () => spawnItem(template));
+  }
+  const stacks: Item[] = [];
+  for (let left = count; left > 0; left -= maxStackOf(template)) {
+    const quantity = Math.min(left, maxStackOf(template));
+    stacks.push({ ...spawnItem(template), quantity });
+  }
+  return stacks;
+}
+
+/**
+ * Takes the ingredients out of storage and puts the outputs at its end, in
+ * one step. Returns null when an ingredient is short or an output template
+ * is gone, leaving the character untouched.
+ */
+export function craft(
+  character: Character,
+  recipe: Recipe,
+  catalog: ItemTemplate[]
+): { character: Character; outputs: Item[]; consumed: string[] } | null {
+  const checks = checkRecipe(character, recipe);
+  if (!isCraftable(checks) || missingOutputs(recipe, catalog).length > 0) {
+    return null;
+  }
+  let next = character;
+  const consumed: string[] = [];
+  for (const { id, count } of checks.flatMap((c) => c.take)) {
+    const item = next.items.find((i) => i.id === id)!;
+    if (count < quantityOf(item)) {
+      next = {
+        ...next,
+        items: next.items.map((i) =>
+          i.id === id ? { ...i, quantity: quantityOf(i) - count } : i
+        ),
+      };
+    } else {
+      next = removeItem(next, id);
+      consumed.push(id);
+    }
+  }
+  const outputs = recipe.outputs.flatMap((o) =>
+    spawnUnits(catalog.find((t) => t.id === o.templateId)!, o.quantity)
+  );
+  return {
+    character: {
+      ...next,
+      items: [...next.items, ...outputs],
+      storageOrder: [...next.storageOrder, ...outputs.map((i) => i.id)],
+    },
+    outputs,
+    consumed,
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Money is stored as a whole number of the smallest coin. Denominations
+ * only decide how amounts are written and read, e.g. 1234 is
+ * "12 gp 3 sp 4 cp".
+ */
+export type Denomination = { id: string; value: number };
+
+export const DEFAULT_DENOMINATIONS: Denomination[] = [
+  { id: "gp", value: 100 },
+  { id: "sp", value: 10 },
+  { id: "cp", value: 1 },
+];
+
+// Largest coin first, as amounts are written
+const byValue = (denominations: Denomination[]) =>
+  [...denominations].sort((a, b) => b.value - a.value);
+
+export function formatMoney(amount: number, denominations: Denomination[]) {
+  const sign = amount < 0 ? "-" : "";
+  let rest = Math.abs(Math.round(amount));
+  const parts: string[] = [];
+  for (const { id, value } of byValue(denominations)) {
+    const count = Math.floor(rest / value);
+    rest -= count * value;
+    if (count > 0) parts.push(`${count} ${id}`);
+  }
+  const smallest = byValue(denominations).at(-1)?.id ?? "";
+  return sign + (parts.join(" ") || `0 ${smallest}`);
+}
+
+/**
+ * Reads amounts like "3 gp 5sp" or "-2 cp". A bare number counts in the
+ * smallest coin. Returns null for anything else.
+ */
+export function parseMoney(text: string, denominations: Denomination[]) {
+  const trimmed = text.trim();
+  if (/^-?\d+$/.test(trimmed)) return Number(trimmed);
+  const negative = trimmed.startsWith("-");
+  const body = negative ? trimmed.slice(1) : trimmed;
+  const pattern = /(\d+)\s*([a-z]+)/gi;
+  let total = 0;
+  let matched = "";
+  for (const [part, count, id] of body.matchAll(pattern)) {
+    const denomination = denominations.find(
+      (d) => d.id.toLowerCase() === id.toLowerCase()
+    );
+    if (!denomination) return null;
+    total += Number(count) * denomination.value;
+    matched += part;
+  }
+  if (!matched || matched.replace(/\s/g, "") !== body.replace(/\s/g, "")) {
+    return null;
+  }
+  return negative ? -total : total;
+}
+
+export const formatDenominations = (denominations: Denomination[]) =>
+  byValue(denominations)
+    .map((d) => `${d.id}=${d.value}`)
+    .join(", ");
+
+/**
+ * Reads "gp=100, sp=10, cp=1". Every coin needs a distinct name and a
+ * positive whole value, and one must be worth 1 so any amount can be paid.
+ */
+export function parseDenominations(text: string): Denomination[] | null {
+  const denominations: Denomination[] = [];
+  for (const entry of text.split(",")) {
+    const match = /^\s*([a-z]+)\s*=\s*(\d+)\s*$/i.exec(entry);
+    if (!match || Number(match[2]) < 1) return null;
+    if (denominations.some((d) => d.id === match[1])) return null;
+    denominations.push({ id: match[1], value: Number(match[2]) });
+  }
+  return denominations.some((d) => d.value === 1)
+    ? byValue(denominations)
+    : null;
+}
@@ -0,0 +1,43 @@
+import type { Item } from "./types.ts";
+
+// Wear applied by "After combat" unless the user picks another amount
+export const DEFAULT_WEAR = 10;
+// Share of the restored points a repair takes off max durability for good
+const REPAIR_PENALTY = 0.1;
+
+export const hasDurability = (item: Item) => item.durability !== undefined;
+
+// A broken item stays equipped but adds nothing to the character's stats
+export const isBroken = (item: Item) => item.durability?.current === 0;
+
+export const isDamaged = (item: Item) =>
+  !!item.durability && item.durability.current < item.durability.max;
+
+// 0 to 1; items without durability count as intact
+export const durabilityRatio = (item: Item) =>
+  item.durability && item.durability.max > 0
+    ? item.durability.current / item.durability.max
+    : 1;
+
+export function wear(item: Item, amount: number): Item {
+  if (!item.durability) return item;
+  const current = Math.max(0, item.durability.current - amount);
+  return { ...item, durability: { ...item.durability, current } };
+}
+
+// Max durability a repair costs: a tenth of the points restored, at least 1
+export function repairCost(item: Item) {
+  if (!isDamaged(item)) return 0;
+  const { current, max } = item.durability!;
+  return Math.max(1, Math.ceil((max - current) * REPAIR_PENALTY));
+}
+
+/**
+ * Restores an item to full durability at the cost of some of its maximum,
+ * so gear repaired again and again slowly wears out for good.
+ */
+export function repair(item: Item): Item {
+  if (!isDamaged(item)) return item;
+  const max = Math.max(1, item.durability!.max - repairCost(item));
+  return { ...item, durability: { current: max, max } };
+}
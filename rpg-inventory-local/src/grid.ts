@@ -0,0 +1,134 @@
+import type { Item } from "./types.ts";
+
+export type Cell = { x: number; y: number };
+export type GridPositions = Record<string, Cell>;
+export type GridSize = { cols: number; rows: number };
+
+export const STORAGE_GRID: GridSize = { cols: 8, rows: 6 };
+// Cell edge in pixels; grid items are drawn as multiples of this
+export const CELL_SIZE = 56;
+
+export function footprint(item: Item) {
+  return { w: item.size?.w ?? 1, h: item.size?.h ?? 1 };
+}
+
+function overlaps(a: Cell, aSize: Cell, b: Cell, bSize: Cell) {
+  return (
+    a.x < b.x + bSize.x &&
+    b.x < a.x + aSize.x &&
+    a.y < b.y + bSize.y &&
+    b.y < a.y + aSize.y
+  );
+}
+
+/**
+ * Whether `item` can sit with its top-left corner at `cell` without leaving
+ * the grid or covering any other placed item.
+ */
+export function fits(
+  positions: GridPositions,
+  items: Item[],
+  item: Item,
+  cell: Cell,
+  grid: GridSize = STORAGE_GRID
+) {
+  const { w, h } = footprint(item);
+  if (cell.x < 0 || cell.y < 0) return false;
+  if (cell.x + w > grid.cols || cell.y + h > grid.rows) return false;
+  return Object.entries(positions).every(([id, pos]) => {
+    if (id === item.id) return true;
+    const other = items.find((i) => i.id === id);
+    if (!other) return true;
+    const o = footprint(other);
+    return !overlaps(cell, { x: w, y: h }, pos, { x: o.w, y: o.h });
+  });
+}
+
+export function findFreeCell(
+  positions: GridPositions,
+  items: Item[],
+  item: Item,
+  grid: GridSize = STORAGE_GRID
+): Cell | null {
+  for (let y = 0; y < grid.rows; y++) {
+    for (let x = 0; x < grid.cols; x++) {
+      if (fits(positions, items, item, { x, y }, grid)) return { x, y };
+    }
+  }
+  return null;
+}
+
+// The placed item whose footprint covers `cell`, if any
+export function itemAt(
+  positions: GridPositions,
+  items: Item[],
+  cell: Cell
+): Item | undefined {
+  return items.find((item) => {
+    const pos = positions[item.id];
+    if (!pos) return false;
+    const { w, h } = footprint(item);
+    return overlaps(cell, { x: 1, y: 1 }, pos, { x: w, y: h });
+  });
+}
+
+/**
+ * Keeps every valid position for the items in `order` and gives the rest the
+ * first free cell. Items that fit nowhere are returned as `overflow`.
+ */
+export function placeAll(
+  order: string[],
+  positions: GridPositions,
+  items: Item[],
+  grid: GridSize = STORAGE_GRID
+): { positions: GridPositions; overflow: string[] } {
+  const next: GridPositions = {};
+  const pending: Item[] = [];
+  for (const id of order) {
+    const item = items.find((i) => i.id === id);
+    if (!item) continue;
+    const pos = positions[id];
+    if (pos && fits(next, items, item, pos, grid)) next[id] = pos;
+    else pending.push(item);
+  }
+
+  const overflow: string[] = [];
+  for (const item of pending) {
+    const cell = findFreeCell(next, items, item, grid);
+    if (cell) next[item.id] = cell;
+    else overflow.push(item.id);
+  }
+  return { positions: next, overflow };
+}
+
+/**
+ * Repacks from scratch, largest footprints first, so that scattered items
+ * are pulled together into the top-left of the grid.
+ */
+export function autoPack(
+  order: string[],
+  items: Item[],
+  grid: GridSize = STORAGE_GRID
+): { order: string[]; positions: GridPositions; overflow: string[] } {
+  const sorted = order
+    .map((id) => items.find((i) => i.id === id))
+    .filter((i): i is Item => !!i)
+    .sort((a, b) => {
+      const fa = footprint(a);
+      const fb = footprint(b);
+      return fb.w * fb.h - fa.w * fa.h || fb.h - fa.h || a.name.localeCompare(b.name);
+    })
+    .map((i) => i.id);
+  return { order: sorted, ...placeAll(sorted, {}, items, grid) };
+}
+
+// Cell nearest to a dragged element's top-left corner, relative to the grid
+export function cellAt(
+  point: { left: number; top: number },
+  origin: { left: number; top: number }
+): Cell {
+  return {
+    x: Math.round((point.left - origin.left) / CELL_SIZE),
+    y: Math.round((point.top - origin.top) / CELL_SIZE),
+  };
+}
@@ -0,0 +1,85 @@
+import { LS_KEY } from "./saveFormat.ts";
+import type { Character } from "./types.ts";
+import type { Transaction } from "./vendor.ts";
+
+// Everything an operation can change: the roster, the shared stash and the
+// vendor's record of trades
+export type Snapshot = {
+  characters: Character[];
+  stash: Character;
+  vendorLog: Transaction[];
+};
+
+/** The roster as it was before the labelled operation. */
+export type HistoryEntry = Snapshot & { label: string };
+export type History = { past: HistoryEntry[]; future: HistoryEntry[] };
+
+export const HISTORY_LIMIT = 50;
+// Session-scoped so a reload keeps the history but a new visit starts clean
+const HISTORY_KEY = `${LS_KEY}.history`;
+
+export const emptyHistory = (): History => ({ past: [], future: [] });
+
+export function record(history: History, entry: HistoryEntry): History {
+  return { past: [...history.past, entry].slice(-HISTORY_LIMIT), future: [] };
+}
+
+/**
+ * Steps back one operation. Returns the snapshot to restore and the
+ * history with the current state moved onto the redo stack.
+ */
+export function undo(history: History, current: Snapshot) {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return {
+    snapshot: entry as Snapshot,
+    history: {
+      past: history.past.slice(0, -1),
+      future: [...history.future, { ...current, label: entry.label }],
+    },
+  };
+}
+
+export function redo(history: History, current: Snapshot) {
+  const entry = history.future.at(-1);
+  if (!entry) return null;
+  return {
+    snapshot: entry as Snapshot,
+    history: {
+      past: [...history.past, { ...current, label: entry.label }],
+      future: history.future.slice(0, -1),
+    },
+  };
+}
+
+export function loadHistory(): History {
+  try {
+    const raw = sessionStorage.getItem(HISTORY_KEY);
+    const history = raw ? (JSON.parse(raw) as History) : emptyHistory();
+    // Entries from before the stash or the vendor existed can't be restored
+    return [...history.past, ...history.future].every(
+      (e) => e.stash && e.vendorLog
+    )
+      ? history
+      : emptyHistory();
+  } catch {
+    return emptyHistory();
+  }
+}
+
+// Drops the oldest entries until the history fits in sessionStorage
+export function saveHistory(history: History) {
+  let past = history.past;
+  for (;;) {
+    try {
+      sessionStorage.setItem(
+        HISTORY_KEY,
+        JSON.stringify({ past, future: history.future })
+      );
+      return;
+    } catch {
+      if (past.length === 0) return;
+      past = past.slice(Math.ceil(past.length / 2));
+    }
+  }
+}
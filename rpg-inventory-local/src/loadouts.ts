@@ -0,0 +1,75 @@
+import {
+  canEquip,
+  emptySlots,
+  equipItem,
+  isSlotId,
+  SLOT_IDS,
+} from "./slots.ts";
+import { meetsRequirements } from "./requirements.ts";
+import type { Character, Loadout } from "./types.ts";
+
+export function createLoadout(name: string, character: Character): Loadout {
+  const slots = { ...emptySlots(), ...character.slots };
+  const names: Record<string, string> = {};
+  for (const id of Object.values(slots)) {
+    const item = character.items.find((i) => i.id === id);
+    if (item) names[item.id] = item.name;
+  }
+  return { id: crypto.randomUUID(), name, slots, names };
+}
+
+/**
+ * Sends everything currently equipped to storage and equips the loadout in
+ * its place, taking items out of bags as needed. Items that no longer exist,
+ * no longer fit their slot, whose requirements the character doesn't meet
+ * or that sat in a slot the layout has dropped are skipped and their names
+ * returned in `missing`.
+ */
+export function applyLoadout(
+  character: Character,
+  loadout: Loadout
+): { character: Character; missing: string[] } {
+  const { items } = character;
+  let storageOrder = [...character.storageOrder];
+  for (const k of SLOT_IDS) {
+    const id = character.slots[k];
+    if (id && !storageOrder.includes(id)) storageOrder.push(id);
+  }
+
+  let slots = emptySlots();
+  const missing: string[] = [];
+  for (const [k, id] of Object.entries(loadout.slots)) {
+    if (!id || isSlotId(k)) continue;
+    const item = items.find((i) => i.id === id);
+    missing.push(item?.name ?? loadout.names[id] ?? "Unknown item");
+  }
+  for (const k of SLOT_IDS) {
+    const id = loadout.slots[k];
+    if (!id) continue;
+    const item = items.find((i) => i.id === id);
+    if (!item || !canEquip(item, k) || !meetsRequirements(item, character)) {
+      missing.push(item?.name ?? loadout.names[id] ?? "Unknown item");
+      continue;
+    }
+    const equipped = equipItem(slots, item, k, items);
+    slots = equipped.slots;
+    storageOrder = [
+      ...storageOrder.filter((x) => x !== id),
+      ...equipped.bumped.filter((x) => !storageOrder.includes(x)),
+    ];
+  }
+
+  // Equipped items leave whatever bag they were packed in
+  const equipped = Object.values(slots);
+  const containers = Object.fromEntries(
+    Object.entries(character.containers).map(([id, contents]) => [
+      id,
+      contents.filter((x) => !equipped.includes(x)),
+    ])
+  );
+
+  return {
+    character: { ...character, slots, storageOrder, containers },
+    missing,
+  };
+}
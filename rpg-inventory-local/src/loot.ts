@@ -0,0 +1,109 @@
+import {
+  AFFIXES,
+  RARITY_AFFIX_COUNTS,
+  RARITY_POWER,
+  RARITY_WEIGHTS,
+  type Affix,
+} from "./affixes.ts";
+import { spawnItem } from "./catalog.ts";
+import { RARITIES, type Rarity } from "./rarity.ts";
+import { maxStackOf } from "./stacks.ts";
+import type { Item, ItemTemplate } from "./types.ts";
+
+export type Rng = () => number;
+
+/**
+ * Deterministic generator in [0, 1) for a text seed (mulberry32 over an
+ * FNV-1a hash), so the same seed always rolls the same drop.
+ */
+export function seededRandom(seed: string): Rng {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A short random seed for the GM to note down or share
+export const randomSeed = () => Math.random().toString(36).slice(2, 8);
+
+const pick = <T>(list: T[], rng: Rng) => list[Math.floor(rng() * list.length)];
+
+function rollRarity(rng: Rng): Rarity {
+  const total = RARITIES.reduce((sum, r) => sum + RARITY_WEIGHTS[r], 0);
+  let roll = rng() * total;
+  for (const rarity of RARITIES) {
+    roll -= RARITY_WEIGHTS[rarity];
+    if (roll < 0) return rarity;
+  }
+  return "common";
+}
+
+// Up to `count` distinct affixes that suit `template`, at most half of
+// them (rounded up) of each kind
+function rollAffixes(template: ItemTemplate, count: number, rng: Rng) {
+  const pool = AFFIXES.filter(
+    (a) =>
+      !a.categories ||
+      (template.category !== undefined &&
+        a.categories.includes(template.category))
+  );
+  const chosen: Affix[] = [];
+  const perKind = Math.ceil(count / 2);
+  while (chosen.length < count && pool.length > 0) {
+    const affix = pool.splice(Math.floor(rng() * pool.length), 1)[0];
+    if (chosen.filter((a) => a.kind === affix.kind).length < perKind) {
+      chosen.push(affix);
+    }
+  }
+  return chosen;
+}
+
+function rollItem(templates: ItemTemplate[], rng: Rng): Item {
+  const template = pick(templates, rng);
+  const item = spawnItem(template);
+  // Stackable loot such as potions stays plain so it still stacks
+  if (maxStackOf(template) > 1) return item;
+
+  const rarity = rollRarity(rng);
+  const affixes = rollAffixes(template, RARITY_AFFIX_COUNTS[rarity], rng);
+  const stats = { ...template.stats };
+  for (const affix of affixes) {
+    for (const [key, [min, max]] of Object.entries(affix.stats)) {
+      const base = stats[key];
+      // A text stat can't take a bonus
+      if (typeof base === "string") continue;
+      const roll = min + rng() * (max - min);
+      const value = Math.round(roll * RARITY_POWER[rarity]);
+      stats[key] = (base ?? 0) + value;
+    }
+  }
+  const prefix = affixes.find((a) => a.kind === "prefix");
+  const suffix = affixes.find((a) => a.kind === "suffix");
+  return {
+    ...item,
+    name: [prefix?.name, template.name, suffix?.name].filter(Boolean).join(" "),
+    rarity,
+    affixes: affixes.length > 0 ? affixes.map((a) => a.name) : undefined,
+    stats,
+  };
+}
+
+/**
+ * Rolls `count` items from the base `templates`. Everything but the item ids
+ * depends only on the templates and `seed`, so a drop can be reproduced.
+ */
+export function generateLoot(
+  templates: ItemTemplate[],
+  seed: string,
+  count: number
+): Item[] {
+  if (templates.length === 0) return [];
+  const rng = seededRandom(seed);
+  return Array.from({ length: count }, () => rollItem(templates, rng));
+}
@@ -0,0 +1,22 @@
+import type { Item } from "./types.ts";
+
+export const RARITIES = [
+  "common",
+  "uncommon",
+  "rare",
+  "epic",
+  "legendary",
+] as const;
+export type Rarity = (typeof RARITIES)[number];
+
+export const RARITY_LABELS: Record<Rarity, string> = {
+  common: "Common",
+  uncommon: "Uncommon",
+  rare: "Rare",
+  epic: "Epic",
+  legendary: "Legendary",
+};
+
+// Items without a rarity, including everything made before rarities, are
+// common
+export const rarityOf = (item: Item): Rarity => item.rarity ?? "common";
@@ -0,0 +1,65 @@
+import type { Character, Item } from "./types.ts";
+
+export const ATTRIBUTES = ["strength", "dexterity", "intelligence"] as const;
+export type Attribute = (typeof ATTRIBUTES)[number];
+
+export const ATTRIBUTE_LABELS: Record<Attribute, string> = {
+  strength: "Strength",
+  dexterity: "Dexterity",
+  intelligence: "Intelligence",
+};
+
+// What a new character, or one saved before attributes existed, starts with
+export const DEFAULT_ATTRIBUTE = 10;
+
+export const levelOf = (character: Character) => character.level ?? 1;
+
+export const attributeOf = (character: Character, attribute: Attribute) =>
+  character.attributes?.[attribute] ?? DEFAULT_ATTRIBUTE;
+
+export const baseAttributes = (character: Character) =>
+  Object.fromEntries(
+    ATTRIBUTES.map((a) => [a, attributeOf(character, a)])
+  ) as Record<Attribute, number>;
+
+export type RequirementCheck = { label: string; met: boolean };
+
+/**
+ * Each of the item's requirements and whether `character` meets it. Only
+ * base attributes count, so gear can't qualify itself through its own
+ * bonuses. Class names match regardless of case.
+ */
+export function checkRequirements(
+  item: Item,
+  character: Character
+): RequirementCheck[] {
+  const { level, attributes = {}, classes = [] } = item.requirements ?? {};
+  const checks: RequirementCheck[] = [];
+  if (level !== undefined) {
+    checks.push({ label: `Level ${level}`, met: levelOf(character) >= level });
+  }
+  for (const attribute of ATTRIBUTES) {
+    const min = attributes[attribute];
+    if (min === undefined) continue;
+    checks.push({
+      label: `${ATTRIBUTE_LABELS[attribute]} ${min}`,
+      met: attributeOf(character, attribute) >= min,
+    });
+  }
+  if (classes.length > 0) {
+    const own = character.characterClass?.trim().toLowerCase();
+    checks.push({
+      label: `Class: ${classes.join(" or ")}`,
+      met: classes.some((c) => c.trim().toLowerCase() === own),
+    });
+  }
+  return checks;
+}
+
+export const unmetRequirements = (item: Item, character: Character) =>
+  checkRequirements(item, character)
+    .filter((c) => !c.met)
+    .map((c) => c.label);
+
+export const meetsRequirements = (item: Item, character: Character) =>
+  unmetRequirements(item, character).length === 0;
@@ -0,0 +1,494 @@
+/**
+ * Save file format.
+ *
+ * The current version (8) is the JSON form of `SaveFile`:
+ *
+ *   {
+ *     "version": 8,
+ *     "storageMode": "list" | "grid",
+ *     "activeCharacterId": string,
+ *     "catalog": ItemTemplate[],    // shared by all characters
+ *     "recipes": Recipe[],          // crafted from catalog templates
+ *     "sets": ItemSet[],            // bonuses for equipping several pieces
+ *     "stash": Character,           // party stash, shaped like a character
+ *     "denominations": [{ "id": string, "value": number }],  // coin names
+ *     "vendor": { "buyMultiplier", "sellMultiplier", "log": Transaction[] },
+ *     "characters": [{
+ *       "id": string,
+ *       "name": string,
+ *       "items": Item[],            // everything the character owns
+ *       "storageOrder": string[],   // ids of items in storage, in list order
+ *       "containers": { [bagId]: string[] },  // bag contents, in order
+ *       "slots": { [slotId]: string | null },
+ *       "gridPositions": { [itemId]: { "x": number, "y": number } },
+ *       "loadouts": Loadout[],
+ *       "carryLimit"?: number,      // weight limits, unlimited when missing
+ *       "storageCapacity"?: number,
+ *       "wallet"?: number,          // in the smallest coin
+ *       "level"?: number,           // checked against item requirements
+ *       "attributes"?: { [attribute]: number },
+ *       "characterClass"?: string
+ *     }]
+ *   }
+ *
+ * Older saves are upgraded step by step on load:
+ *   0  the 0.1 prototype: `{ slot0: "sword", ... }` under "rpg.inventory.slots"
+ *   1  one unversioned character: `{ items, storageOrder, slots, ... }`
+ *   2  unversioned roster: `{ characters, activeCharacterId, storageMode }`
+ *   3  roster without an item catalog
+ *   4  characters without bags, and no party stash
+ *   5  no coins or vendor
+ *   6  no crafting recipes
+ *   7  no item sets
+ *
+ * Slots aren't versioned: every load matches them to the current
+ * SLOT_LAYOUT, so adding or removing a slot never loses an item.
+ */
+import { createCharacter, fitSlotLayout } from "./characters.ts";
+import type { Recipe } from "./crafting.ts";
+import { DEFAULT_DENOMINATIONS, type Denomination } from "./currency.ts";
+import { RARITIES } from "./rarity.ts";
+import { ATTRIBUTES } from "./requirements.ts";
+import type { ItemSet } from "./sets.ts";
+import { ITEM_CATEGORIES, emptySlots } from "./slots.ts";
+import type { Character, ItemTemplate } from "./types.ts";
+import { DEFAULT_VENDOR, type Vendor } from "./vendor.ts";
+
+export const SAVE_VERSION = 8;
+
+export const LS_KEY = "rpg.inventory.tooltip-hover";
+// Where earlier builds kept their data, newest first
+const LEGACY_KEYS = ["rpg.inventory.storage-fixed", "rpg.inventory.slots"];
+// A save that fails to load is copied here before it can be overwritten
+export const BACKUP_KEY = `${LS_KEY}.backup`;
+
+export type SaveFile = {
+  version: typeof SAVE_VERSION;
+  storageMode: "list" | "grid";
+  activeCharacterId: string;
+  catalog: ItemTemplate[];
+  recipes: Recipe[];
+  sets: ItemSet[];
+  stash: Character;
+  denominations: Denomination[];
+  vendor: Vendor;
+  characters: Character[];
+};
+
+export class SaveFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaveFormatError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// ---------------- Migrations ----------------
+function detectVersion(data: Json): number {
+  if (typeof data.version === "number") return data.version;
+  if ("characters" in data) return 2;
+  if ("items" in data || "storageOrder" in data) return 1;
+  return 0;
+}
+
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  // Prototype slots held bare labels; turn each into an item in storage
+  0: (data) => {
+    const items = Object.values(data)
+      .filter((v): v is string => typeof v === "string" && v !== "")
+      .map((label) => ({
+        id: crypto.randomUUID(),
+        name: label.charAt(0).toUpperCase() + label.slice(1),
+        stats: {},
+      }));
+    return { items, storageOrder: items.map((i) => i.id), slots: {} };
+  },
+  1: (data) => {
+    const character = createCharacter("Adventurer");
+    return {
+      storageMode: data.storageMode,
+      activeCharacterId: character.id,
+      characters: [
+        {
+          ...character,
+          items: data.items ?? [],
+          storageOrder: data.storageOrder ?? [],
+          gridPositions: data.gridPositions ?? {},
+          slots: { ...emptySlots(), ...(isObject(data.slots) ? data.slots : {}) },
+        },
+      ],
+    };
+  },
+  2: (data) => ({
+    ...data,
+    version: 3,
+    storageMode: data.storageMode === "grid" ? "grid" : "list",
+    characters: Array.isArray(data.characters)
+      ? data.characters.map((c) => (isObject(c) ? { loadouts: [], ...c } : c))
+      : data.characters,
+  }),
+  3: (data) => ({ ...data, version: 4, catalog: [] }),
+  4: (data) => ({
+    ...data,
+    version: 5,
+    stash: createCharacter("Party stash"),
+    characters: Array.isArray(data.characters)
+      ? data.characters.map((c) => (isObject(c) ? { containers: {}, ...c } : c))
+      : data.characters,
+  }),
+  5: (data) => ({
+    ...data,
+    version: 6,
+    denominations: DEFAULT_DENOMINATIONS,
+    vendor: DEFAULT_VENDOR,
+  }),
+  6: (data) => ({ ...data, version: 7, recipes: [] }),
+  7: (data) => ({ ...data, version: 8, sets: [] }),
+};
+
+export function migrate(data: unknown): unknown {
+  if (!isObject(data)) throw new SaveFormatError("save is not a JSON object");
+  let version = detectVersion(data);
+  if (version > SAVE_VERSION) {
+    throw new SaveFormatError(
+      `save is version ${version}, newer than this app supports (${SAVE_VERSION})`
+    );
+  }
+  let current = data;
+  while (version < SAVE_VERSION) {
+    current = MIGRATIONS[version](current);
+    version++;
+  }
+  return current;
+}
+
+// ---------------- Validation ----------------
+function fail(path: string, expected: string): never {
+  throw new SaveFormatError(`${path} should be ${expected}`);
+}
+
+function expectObject(value: unknown, path: string): Json {
+  if (!isObject(value)) fail(path, "an object");
+  return value;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) fail(path, "an array");
+  return value;
+}
+
+function expectString(value: unknown, path: string) {
+  if (typeof value !== "string") fail(path, "a string");
+}
+
+function expectOptional(
+  value: unknown,
+  path: string,
+  check: (value: unknown, path: string) => void
+) {
+  if (value !== undefined) check(value, path);
+}
+
+function expectNumber(value: unknown, path: string) {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    fail(path, "a number");
+  }
+}
+
+function expectPositiveInt(value: unknown, path: string) {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    fail(path, "a positive whole number");
+  }
+}
+
+function expectNonNegative(value: unknown, path: string) {
+  expectNumber(value, path);
+  if ((value as number) < 0) fail(path, "zero or more");
+}
+
+function validateAttributes(value: unknown, path: string) {
+  for (const [key, score] of Object.entries(expectObject(value, path))) {
+    if (!(ATTRIBUTES as readonly string[]).includes(key)) {
+      fail(`${path}.${key}`, `one of ${ATTRIBUTES.join(", ")}`);
+    }
+    expectNumber(score, `${path}.${key}`);
+  }
+}
+
+export function validateItem(value: unknown, path: string) {
+  const item = expectObject(value, path);
+  expectString(item.id, `${path}.id`);
+  expectOptional(item.templateId, `${path}.templateId`, expectString);
+  expectString(item.name, `${path}.name`);
+  expectOptional(item.icon, `${path}.icon`, expectString);
+  expectOptional(item.description, `${path}.description`, expectString);
+  if (
+    item.category !== undefined &&
+    !(ITEM_CATEGORIES as readonly unknown[]).includes(item.category)
+  ) {
+    fail(`${path}.category`, `one of ${ITEM_CATEGORIES.join(", ")}`);
+  }
+  expectOptional(item.durability, `${path}.durability`, (durability, p) => {
+    const { current, max } = expectObject(durability, p);
+    expectNonNegative(current, `${p}.current`);
+    expectNonNegative(max, `${p}.max`);
+  });
+  if (
+    item.rarity !== undefined &&
+    !(RARITIES as readonly unknown[]).includes(item.rarity)
+  ) {
+    fail(`${path}.rarity`, `one of ${RARITIES.join(", ")}`);
+  }
+  expectOptional(item.affixes, `${path}.affixes`, (affixes, p) =>
+    expectArray(affixes, p).forEach((a, i) => expectString(a, `${p}[${i}]`))
+  );
+  expectOptional(item.set, `${path}.set`, expectString);
+  expectOptional(item.requirements, `${path}.requirements`, (value, p) => {
+    const requirements = expectObject(value, p);
+    expectOptional(requirements.level, `${p}.level`, expectPositiveInt);
+    expectOptional(
+      requirements.attributes,
+      `${p}.attributes`,
+      validateAttributes
+    );
+    expectOptional(requirements.classes, `${p}.classes`, (classes, cp) =>
+      expectArray(classes, cp).forEach((c, i) =>
+        expectString(c, `${cp}[${i}]`)
+      )
+    );
+  });
+  expectOptional(item.size, `${path}.size`, (size, p) => {
+    const { w, h } = expectObject(size, p);
+    expectPositiveInt(w, `${p}.w`);
+    expectPositiveInt(h, `${p}.h`);
+  });
+  expectOptional(item.quantity, `${path}.quantity`, expectPositiveInt);
+  expectOptional(item.maxStack, `${path}.maxStack`, expectPositiveInt);
+  expectOptional(item.weight, `${path}.weight`, expectNonNegative);
+  expectOptional(item.value, `${path}.value`, expectNonNegative);
+  expectOptional(item.sockets, `${path}.sockets`, expectPositiveInt);
+  expectOptional(item.socketed, `${path}.socketed`, (socketed, p) =>
+    expectArray(socketed, p).forEach((gem, i) =>
+      validateItem(gem, `${p}[${i}]`)
+    )
+  );
+  expectOptional(item.container, `${path}.container`, (container, p) =>
+    expectOptional(
+      expectObject(container, p).capacity,
+      `${p}.capacity`,
+      expectNonNegative
+    )
+  );
+  const stats = expectObject(item.stats, `${path}.stats`);
+  for (const [key, stat] of Object.entries(stats)) {
+    if (typeof stat !== "string") expectNumber(stat, `${path}.stats.${key}`);
+  }
+}
+
+export function validateRecipe(value: unknown, path: string) {
+  const recipe = expectObject(value, path);
+  expectString(recipe.id, `${path}.id`);
+  expectString(recipe.name, `${path}.name`);
+  expectArray(recipe.ingredients, `${path}.ingredients`).forEach((x, i) => {
+    const p = `${path}.ingredients[${i}]`;
+    const ingredient = expectObject(x, p);
+    if (ingredient.templateId !== undefined) {
+      expectString(ingredient.templateId, `${p}.templateId`);
+    } else if (
+      !(ITEM_CATEGORIES as readonly unknown[]).includes(ingredient.category)
+    ) {
+      fail(p, "a templateId or a category");
+    }
+    expectPositiveInt(ingredient.quantity, `${p}.quantity`);
+  });
+  const outputs = expectArray(recipe.outputs, `${path}.outputs`);
+  if (outputs.length === 0) fail(`${path}.outputs`, "a non-empty array");
+  outputs.forEach((x, i) => {
+    const output = expectObject(x, `${path}.outputs[${i}]`);
+    expectString(output.templateId, `${path}.outputs[${i}].templateId`);
+    expectPositiveInt(output.quantity, `${path}.outputs[${i}].quantity`);
+  });
+}
+
+export function validateItemSet(value: unknown, path: string) {
+  const set = expectObject(value, path);
+  expectString(set.id, `${path}.id`);
+  expectString(set.name, `${path}.name`);
+  expectArray(set.bonuses, `${path}.bonuses`).forEach((x, i) => {
+    const p = `${path}.bonuses[${i}]`;
+    const bonus = expectObject(x, p);
+    expectPositiveInt(bonus.pieces, `${p}.pieces`);
+    for (const [key, stat] of Object.entries(
+      expectObject(bonus.stats, `${p}.stats`)
+    )) {
+      if (typeof stat !== "string") expectNumber(stat, `${p}.stats.${key}`);
+    }
+  });
+}
+
+function validateSlots(value: unknown, path: string) {
+  for (const [key, id] of Object.entries(expectObject(value, path))) {
+    if (id !== null) expectString(id, `${path}.${key}`);
+  }
+}
+
+function validateCharacter(value: unknown, path: string) {
+  const c = expectObject(value, path);
+  expectString(c.id, `${path}.id`);
+  expectString(c.name, `${path}.name`);
+  expectArray(c.items, `${path}.items`).forEach((item, i) =>
+    validateItem(item, `${path}.items[${i}]`)
+  );
+  expectArray(c.storageOrder, `${path}.storageOrder`).forEach((id, i) =>
+    expectString(id, `${path}.storageOrder[${i}]`)
+  );
+  for (const [id, contents] of Object.entries(
+    expectObject(c.containers, `${path}.containers`)
+  )) {
+    expectArray(contents, `${path}.containers.${id}`).forEach((x, i) =>
+      expectString(x, `${path}.containers.${id}[${i}]`)
+    );
+  }
+  validateSlots(c.slots, `${path}.slots`);
+  const positions = expectObject(c.gridPositions, `${path}.gridPositions`);
+  for (const [id, cell] of Object.entries(positions)) {
+    const { x, y } = expectObject(cell, `${path}.gridPositions.${id}`);
+    expectNumber(x, `${path}.gridPositions.${id}.x`);
+    expectNumber(y, `${path}.gridPositions.${id}.y`);
+  }
+  expectArray(c.loadouts, `${path}.loadouts`).forEach((value, i) => {
+    const p = `${path}.loadouts[${i}]`;
+    const loadout = expectObject(value, p);
+    expectString(loadout.id, `${p}.id`);
+    expectString(loadout.name, `${p}.name`);
+    validateSlots(loadout.slots, `${p}.slots`);
+    for (const [id, name] of Object.entries(
+      expectObject(loadout.names, `${p}.names`)
+    )) {
+      expectString(name, `${p}.names.${id}`);
+    }
+  });
+  expectOptional(c.carryLimit, `${path}.carryLimit`, expectNonNegative);
+  expectOptional(
+    c.storageCapacity,
+    `${path}.storageCapacity`,
+    expectNonNegative
+  );
+  expectOptional(c.wallet, `${path}.wallet`, expectNumber);
+  expectOptional(c.level, `${path}.level`, expectPositiveInt);
+  expectOptional(c.attributes, `${path}.attributes`, validateAttributes);
+  expectOptional(c.characterClass, `${path}.characterClass`, expectString);
+}
+
+function validateVendor(value: unknown, path: string) {
+  const vendor = expectObject(value, path);
+  expectNonNegative(vendor.buyMultiplier, `${path}.buyMultiplier`);
+  expectNonNegative(vendor.sellMultiplier, `${path}.sellMultiplier`);
+  expectArray(vendor.log, `${path}.log`).forEach((entry, i) => {
+    const p = `${path}.log[${i}]`;
+    const t = expectObject(entry, p);
+    for (const key of ["id", "at", "character", "item"]) {
+      expectString(t[key], `${p}.${key}`);
+    }
+    if (t.kind !== "buy" && t.kind !== "sell") {
+      fail(`${p}.kind`, '"buy" or "sell"');
+    }
+    expectPositiveInt(t.quantity, `${p}.quantity`);
+    expectNumber(t.amount, `${p}.amount`);
+  });
+}
+
+export function validateSave(data: unknown): SaveFile {
+  const save = expectObject(data, "save");
+  if (save.version !== SAVE_VERSION) fail("version", String(SAVE_VERSION));
+  if (save.storageMode !== "list" && save.storageMode !== "grid") {
+    fail("storageMode", '"list" or "grid"');
+  }
+  const characters = expectArray(save.characters, "characters");
+  if (characters.length === 0) fail("characters", "a non-empty array");
+  characters.forEach((c, i) => validateCharacter(c, `characters[${i}]`));
+  expectString(save.activeCharacterId, "activeCharacterId");
+  expectArray(save.catalog, "catalog").forEach((t, i) =>
+    validateItem(t, `catalog[${i}]`)
+  );
+  expectArray(save.recipes, "recipes").forEach((r, i) =>
+    validateRecipe(r, `recipes[${i}]`)
+  );
+  expectArray(save.sets, "sets").forEach((s, i) =>
+    validateItemSet(s, `sets[${i}]`)
+  );
+  validateCharacter(save.stash, "stash");
+  const denominations = expectArray(save.denominations, "denominations");
+  if (denominations.length === 0) fail("denominations", "a non-empty array");
+  denominations.forEach((d, i) => {
+    const { id, value } = expectObject(d, `denominations[${i}]`);
+    expectString(id, `denominations[${i}].id`);
+    expectPositiveInt(value, `denominations[${i}].value`);
+  });
+  validateVendor(save.vendor, "vendor");
+  return save as SaveFile;
+}
+
+// ---------------- Reading & writing ----------------
+export function parseSave(json: string): SaveFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new SaveFormatError("file is not valid JSON");
+  }
+  const save = validateSave(migrate(data));
+  return {
+    ...save,
+    stash: fitSlotLayout(save.stash),
+    characters: save.characters.map(fitSlotLayout),
+  };
+}
+
+export const serializeSave = (save: SaveFile) => JSON.stringify(save);
+
+/**
+ * The save without the character and view each tab picks for itself, so
+ * another tab switching either isn't mistaken for an edit.
+ */
+export const serializeShared = (save: SaveFile) =>
+  JSON.stringify({ ...save, activeCharacterId: null, storageMode: null });
+
+/**
+ * Reads the save from localStorage, falling back to the keys of older
+ * builds. A save that fails to parse is copied to BACKUP_KEY before the
+ * error is rethrown, so the app can start fresh without losing it.
+ */
+export function loadLocalSave(): SaveFile | null {
+  for (const key of [LS_KEY, ...LEGACY_KEYS]) {
+    const raw = localStorage.getItem(key);
+    if (!raw) continue;
+    try {
+      return parseSave(raw);
+    } catch (err) {
+      localStorage.setItem(BACKUP_KEY, raw);
+      throw err;
+    }
+  }
+  return null;
+}
+
+// Offers `data` to the user as a dated .json download
+export function downloadJson(data: unknown, prefix: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${prefix}-${new Date().toISOString().slice(0, 10)}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export const downloadSave = (save: SaveFile) =>
+  downloadJson(save, "rpg-inventory");
@@ -0,0 +1,78 @@
+import { isBroken } from "./durability.ts";
+import { equippedItems, type StatModifier } from "./stats.ts";
+import type { Item, ItemTemplate, SlotsState, Stats } from "./types.ts";
+
+// Applies once at least `pieces` different members are equipped
+export type SetBonus = { pieces: number; stats: Stats };
+
+// Items join a set through their `set` field, holding the set's id
+export type ItemSet = { id: string; name: string; bonuses: SetBonus[] };
+
+export type SetStatus = {
+  set: ItemSet;
+  // Every known piece: catalog templates of the set plus anything equipped
+  members: { name: string; equipped: boolean }[];
+  pieces: number;
+  bonuses: { bonus: SetBonus; active: boolean }[];
+};
+
+// Two copies of the same piece, like a pair of identical rings, count once
+const pieceKey = (item: Item) => item.templateId ?? item.name;
+
+// Distinct members of `set` that are equipped and not broken
+function equippedPieces(set: ItemSet, slots: SlotsState, items: Item[]) {
+  const pieces = new Map<string, Item>();
+  for (const { item } of equippedItems(slots, items)) {
+    if (item.set === set.id && !isBroken(item)) {
+      pieces.set(pieceKey(item), item);
+    }
+  }
+  return [...pieces.values()];
+}
+
+const activeBonuses = (set: ItemSet, pieces: number) =>
+  set.bonuses.filter((b) => pieces >= b.pieces);
+
+// The bonuses of every set with enough pieces equipped, for computeTotals
+export function setModifiers(
+  sets: ItemSet[],
+  slots: SlotsState,
+  items: Item[]
+): StatModifier[] {
+  return sets.flatMap((set) => {
+    const pieces = equippedPieces(set, slots, items).length;
+    return activeBonuses(set, pieces).map((bonus) => ({
+      source: `${set.name} (${bonus.pieces})`,
+      stats: bonus.stats,
+    }));
+  });
+}
+
+export function setStatus(
+  item: Item,
+  sets: ItemSet[],
+  slots: SlotsState,
+  items: Item[],
+  catalog: ItemTemplate[]
+): SetStatus | null {
+  const set = sets.find((s) => s.id === item.set);
+  if (!set) return null;
+  const equipped = equippedPieces(set, slots, items);
+  const keys = new Set(equipped.map(pieceKey));
+  const members = catalog
+    .filter((t) => t.set === set.id)
+    .map((t) => ({ name: t.name, equipped: keys.has(t.id) }));
+  for (const piece of equipped) {
+    if (!catalog.some((t) => t.id === pieceKey(piece))) {
+      members.push({ name: piece.name, equipped: true });
+    }
+  }
+  return {
+    set,
+    members,
+    pieces: equipped.length,
+    bonuses: [...set.bonuses]
+      .sort((a, b) => a.pieces - b.pieces)
+      .map((bonus) => ({ bonus, active: equipped.length >= bonus.pieces })),
+  };
+}
@@ -0,0 +1,43 @@
+import type { ItemCategory } from "./slots.ts";
+
+export type SlotDefinition = {
+  id: string;
+  label: string;
+  // 1-based cell in the equipment grid
+  row: number;
+  col: number;
+  // Categories that may be equipped here; uncategorized items fit anywhere
+  accepts: readonly ItemCategory[];
+};
+
+/**
+ * The equipment screen, in reading order. Adding, removing or moving a slot
+ * only takes an edit here; saves are matched to the layout when they load.
+ * "mainHand" and "offHand" must stay, since two-handed weapons span both.
+ */
+export const SLOT_LAYOUT = [
+  { id: "cloak", label: "Cloak", row: 1, col: 1, accepts: ["cloak"] },
+  { id: "head", label: "Head", row: 1, col: 2, accepts: ["head"] },
+  { id: "amulet", label: "Amulet", row: 1, col: 3, accepts: ["amulet"] },
+  {
+    id: "mainHand",
+    label: "Main Hand",
+    row: 2,
+    col: 1,
+    accepts: ["oneHand", "twoHand"],
+  },
+  { id: "body", label: "Body", row: 2, col: 2, accepts: ["body"] },
+  {
+    id: "offHand",
+    label: "Off-Hand",
+    row: 2,
+    col: 3,
+    accepts: ["oneHand", "twoHand", "offHand"],
+  },
+  { id: "hands", label: "Hands", row: 3, col: 1, accepts: ["hands"] },
+  { id: "legs", label: "Legs", row: 3, col: 2, accepts: ["legs"] },
+  { id: "quiver", label: "Quiver", row: 3, col: 3, accepts: ["quiver"] },
+  { id: "ring1", label: "Left Ring", row: 4, col: 1, accepts: ["ring"] },
+  { id: "feet", label: "Feet", row: 4, col: 2, accepts: ["feet"] },
+  { id: "ring2", label: "Right Ring", row: 4, col: 3, accepts: ["ring"] },
+] as const satisfies readonly SlotDefinition[];
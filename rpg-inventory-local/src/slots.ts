@@ -0,0 +1,107 @@
+import { SLOT_LAYOUT } from "./slotLayout.ts";
+import type { Item, SlotsState } from "./types.ts";
+
+export type SlotId = (typeof SLOT_LAYOUT)[number]["id"];
+
+export const SLOT_IDS: readonly SlotId[] = SLOT_LAYOUT.map((s) => s.id);
+
+export const SLOT_LABELS = Object.fromEntries(
+  SLOT_LAYOUT.map((s) => [s.id, s.label])
+) as Record<SlotId, string>;
+
+export const isSlotId = (id: string): id is SlotId =>
+  (SLOT_IDS as readonly string[]).includes(id);
+
+export const emptySlots = (): SlotsState =>
+  Object.fromEntries(SLOT_IDS.map((id) => [id, null]));
+
+export const ITEM_CATEGORIES = [
+  "head",
+  "body",
+  "legs",
+  "oneHand",
+  "twoHand",
+  "offHand",
+  "hands",
+  "feet",
+  "cloak",
+  "amulet",
+  "ring",
+  "quiver",
+  "gem",
+  "misc",
+] as const;
+export type ItemCategory = (typeof ITEM_CATEGORIES)[number];
+
+export const CATEGORY_LABELS: Record<ItemCategory, string> = {
+  head: "Helmet",
+  body: "Armor",
+  legs: "Leggings",
+  oneHand: "One-handed weapon",
+  twoHand: "Two-handed weapon",
+  offHand: "Shield / off-hand",
+  hands: "Gloves",
+  feet: "Boots",
+  cloak: "Cloak",
+  amulet: "Amulet",
+  ring: "Ring",
+  quiver: "Quiver",
+  gem: "Gem / rune",
+  misc: "Not equippable",
+};
+
+
+export const isTwoHanded = (item: Item | undefined) =>
+  item?.category === "twoHand";
+
+// Where the item may be dropped, per SLOT_LAYOUT. Two-handed weapons accept
+// either hand but always end up in mainHand, blocking offHand while equipped.
+// Gems and misc items fit no slot.
+export function allowedSlots(item: Item): readonly SlotId[] {
+  const { category } = item;
+  if (!category) return SLOT_IDS;
+  return SLOT_LAYOUT.filter((s) =>
+    (s.accepts as readonly ItemCategory[]).includes(category)
+  ).map((s) => s.id);
+}
+
+export function canEquip(item: Item, slotId: SlotId) {
+  return allowedSlots(item).includes(slotId);
+}
+
+/**
+ * Puts `item` into `slotId` and returns the new slots together with the ids
+ * of every item that had to make room (to be sent back to storage).
+ */
+export function equipItem(
+  slots: SlotsState,
+  item: Item,
+  slotId: SlotId,
+  items: Item[]
+): { slots: SlotsState; bumped: string[] } {
+  const next = { ...slots };
+  for (const k of SLOT_IDS) if (next[k] === item.id) next[k] = null;
+
+  const displaced: (string | null)[] = [];
+  let target: SlotId = slotId;
+  if (isTwoHanded(item)) {
+    target = "mainHand";
+    displaced.push(next.mainHand, next.offHand);
+    next.offHand = null;
+  } else {
+    displaced.push(next[slotId]);
+    if (slotId === "offHand") {
+      const main = items.find((i) => i.id === next.mainHand);
+      if (isTwoHanded(main)) {
+        displaced.push(next.mainHand);
+        next.mainHand = null;
+      }
+    }
+  }
+  next[target] = item.id;
+
+  const bumped = [
+    ...new Set(displaced.filter((id): id is string => !!id && id !== item.id)),
+  ];
+  return { slots: next, bumped };
+}
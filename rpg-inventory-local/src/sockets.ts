@@ -0,0 +1,76 @@
+import { maxStackOf, quantityOf } from "./stacks.ts";
+import type { Item, Stats } from "./types.ts";
+
+// Droppable ids laid over items with a free socket, for dropping gems on
+export const SOCKET_DROP_PREFIX = "socket:";
+
+export const socketDropId = (itemId: string) => SOCKET_DROP_PREFIX + itemId;
+
+export const hostIdFromDrop = (dropId: string) =>
+  dropId.startsWith(SOCKET_DROP_PREFIX)
+    ? dropId.slice(SOCKET_DROP_PREFIX.length)
+    : null;
+
+export const isGem = (item?: Item) => item?.category === "gem";
+
+export const socketedGems = (item: Item) => item.socketed ?? [];
+
+export const freeSockets = (item: Item) =>
+  (item.sockets ?? 0) - socketedGems(item).length;
+
+// Gems go into single items, never into stacks or other gems
+export const canSocket = (host: Item, gem: Item) =>
+  isGem(gem) &&
+  !isGem(host) &&
+  host.id !== gem.id &&
+  maxStackOf(host) <= 1 &&
+  freeSockets(host) > 0;
+
+/**
+ * Puts one gem from `gem` into the first free socket of `host`. Returns the
+ * updated host and what is left of the gem stack, null once it is used up.
+ */
+export function insertGem(
+  host: Item,
+  gem: Item
+): { host: Item; gem: Item | null } {
+  const left = quantityOf(gem) - 1;
+  const inserted =
+    left > 0 ? { ...gem, id: crypto.randomUUID(), quantity: 1 } : gem;
+  return {
+    host: { ...host, socketed: [...socketedGems(host), inserted] },
+    gem: left > 0 ? { ...gem, quantity: left } : null,
+  };
+}
+
+// Takes the gem at `index` back out, freeing its socket
+export function removeGem(
+  host: Item,
+  index: number
+): { host: Item; gem: Item } | null {
+  const gem = socketedGems(host)[index];
+  if (!gem) return null;
+  const socketed = socketedGems(host).filter((_, i) => i !== index);
+  return {
+    host: { ...host, socketed: socketed.length > 0 ? socketed : undefined },
+    gem,
+  };
+}
+
+/**
+ * The item's own stats with its gems' added on top. Numbers are summed;
+ * a text stat keeps the item's own value.
+ */
+export function effectiveStats(item: Item): Stats {
+  const stats: Stats = { ...item.stats };
+  for (const gem of socketedGems(item)) {
+    for (const [key, value] of Object.entries(gem.stats)) {
+      const own = stats[key];
+      stats[key] =
+        typeof own === "number" && typeof value === "number"
+          ? own + value
+          : (own ?? value);
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,60 @@
+import type { Item } from "./types.ts";
+
+export const quantityOf = (item: Item) => item.quantity ?? 1;
+export const maxStackOf = (item: Item) => item.maxStack ?? 1;
+
+// Key-order independent JSON of everything but id and quantity
+const kindKey = (item: Item) => {
+  const rest: Partial<Item> = { ...item };
+  delete rest.id;
+  delete rest.quantity;
+  return JSON.stringify(rest, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : value
+  );
+};
+
+// Two items stack together when everything but id and quantity matches.
+// Bags never do, since each has its own contents.
+export function canStack(a: Item, b: Item) {
+  return (
+    a.id !== b.id &&
+    maxStackOf(a) > 1 &&
+    !a.container &&
+    kindKey(a) === kindKey(b)
+  );
+}
+
+// Whether dropping `source` onto `target` would move anything
+export const canMerge = (target: Item, source: Item) =>
+  canStack(target, source) && quantityOf(target) < maxStackOf(target);
+
+/**
+ * Moves as much of `source` into `target` as the stack limit allows.
+ * Returns the updated items; `source` is null once it has been emptied.
+ */
+export function mergeStacks(
+  target: Item,
+  source: Item
+): { target: Item; source: Item | null } {
+  const room = maxStackOf(target) - quantityOf(target);
+  const moved = Math.min(room, quantityOf(source));
+  const left = quantityOf(source) - moved;
+  return {
+    target: { ...target, quantity: quantityOf(target) + moved },
+    source: left > 0 ? { ...source, quantity: left } : null,
+  };
+}
+
+// Takes `count` off `item` into a new stack with a fresh id
+export function splitStack(item: Item, count: number): [Item, Item] | null {
+  const total = quantityOf(item);
+  if (!Number.isInteger(count) || count <= 0 || count >= total) return null;
+  return [
+    { ...item, quantity: total - count },
+    { ...item, id: crypto.randomUUID(), quantity: count },
+  ];
+}
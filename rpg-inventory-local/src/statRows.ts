@@ -0,0 +1,47 @@
+import type { Stats } from "./types.ts";
+
+// One editable line of a stats table, kept as text until saved
+export type StatRow = { key: string; type: "number" | "text"; value: string };
+
+export const emptyStatRow = (): StatRow => ({
+  key: "",
+  type: "number",
+  value: "",
+});
+
+export const toStatRows = (stats: Stats = {}): StatRow[] =>
+  Object.entries(stats).map(([key, value]) => ({
+    key,
+    type: typeof value === "number" ? "number" : "text",
+    value: String(value),
+  }));
+
+export function fromStatRows(rows: StatRow[]): Stats {
+  const stats: Stats = {};
+  for (const row of rows) {
+    stats[row.key.trim()] = row.type === "number" ? Number(row.value) : row.value;
+  }
+  return stats;
+}
+
+// Error messages for the rows, keyed "<prefix>.<index>"
+export function validateStatRows(
+  rows: StatRow[],
+  prefix = "stat"
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+  rows.forEach((row, i) => {
+    const key = row.key.trim();
+    const field = `${prefix}.${i}`;
+    if (!key) errors[field] = "Stat name is required";
+    else if (seen.has(key)) errors[field] = `Duplicate stat "${key}"`;
+    else if (row.type === "number" && !Number.isFinite(Number(row.value))) {
+      errors[field] = "Not a number";
+    } else if (row.type === "number" && row.value.trim() === "") {
+      errors[field] = "Value is required";
+    }
+    seen.add(key);
+  });
+  return errors;
+}
@@ -0,0 +1,75 @@
+import { isBroken } from "./durability.ts";
+import { SLOT_IDS, SLOT_LABELS } from "./slots.ts";
+import { socketedGems } from "./sockets.ts";
+import type { Item, SlotsState, Stats } from "./types.ts";
+
+export type StatContribution = {
+  source: string;
+  item?: Item;
+  value: string | number;
+};
+
+export type StatTotal = {
+  key: string;
+  // Sum of all contributions, or null when any of them is text
+  total: number | null;
+  // Distinct text values, in the order they were first seen
+  values: string[];
+  contributions: StatContribution[];
+};
+
+export function equippedItems(slots: SlotsState, items: Item[]) {
+  const result: { slot: (typeof SLOT_IDS)[number]; item: Item }[] = [];
+  for (const slot of SLOT_IDS) {
+    const item = items.find((i) => i.id === slots[slot]);
+    if (item) result.push({ slot, item });
+  }
+  return result;
+}
+
+// Stats that come from something other than an item, e.g. encumbrance
+export type StatModifier = { source: string; stats: Stats };
+
+/**
+ * Aggregates the stats of everything equipped and not broken, with the
+ * gems socketed into it, plus any `modifiers`. Numeric stats are summed;
+ * a stat with any text value is reported as the list of its distinct values.
+ */
+export function computeTotals(
+  slots: SlotsState,
+  items: Item[],
+  modifiers: StatModifier[] = []
+): StatTotal[] {
+  const byKey = new Map<string, StatContribution[]>();
+  const add = (key: string, contribution: StatContribution) =>
+    byKey.set(key, [...(byKey.get(key) ?? []), contribution]);
+  for (const { slot, item } of equippedItems(slots, items)) {
+    if (isBroken(item)) continue;
+    for (const part of [item, ...socketedGems(item)]) {
+      for (const [key, value] of Object.entries(part.stats)) {
+        add(key, { source: SLOT_LABELS[slot], item: part, value });
+      }
+    }
+  }
+  for (const { source, stats } of modifiers) {
+    for (const [key, value] of Object.entries(stats)) {
+      add(key, { source, value });
+    }
+  }
+
+  return [...byKey.entries()]
+    .map(([key, contributions]) => {
+      const numeric = contributions.every((c) => typeof c.value === "number");
+      return {
+        key,
+        total: numeric
+          ? contributions.reduce((sum, c) => sum + (c.value as number), 0)
+          : null,
+        values: numeric
+          ? []
+          : [...new Set(contributions.map((c) => String(c.value)))],
+        contributions,
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
@@ -0,0 +1,69 @@
+import { BACKUP_KEY, LS_KEY } from "./saveFormat.ts";
+
+/** Somewhere the serialized save can be kept between visits. */
+export type StorageAdapter = {
+  kind: "indexedDB" | "localStorage";
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+  // Keeps a copy under BACKUP_KEY, out of the way of later writes
+  backup(data: string): Promise<void>;
+};
+
+const DB_NAME = "rpg-inventory";
+const DB_STORE = "saves";
+const DB_KEY = "current";
+
+export function localStorageAdapter(
+  key = LS_KEY,
+  backupKey = BACKUP_KEY
+): StorageAdapter {
+  return {
+    kind: "localStorage",
+    read: async () => localStorage.getItem(key),
+    write: async (data) => localStorage.setItem(key, data),
+    backup: async (data) => localStorage.setItem(backupKey, data),
+  };
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function indexedDbAdapter(db: IDBDatabase): StorageAdapter {
+  const store = (mode: IDBTransactionMode) =>
+    db.transaction(DB_STORE, mode).objectStore(DB_STORE);
+  return {
+    kind: "indexedDB",
+    read: async () => (await promisify(store("readonly").get(DB_KEY))) ?? null,
+    write: async (data) => {
+      await promisify(store("readwrite").put(data, DB_KEY));
+    },
+    backup: async (data) => {
+      await promisify(store("readwrite").put(data, BACKUP_KEY));
+    },
+  };
+}
+
+function openDatabase() {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+  return promisify(request);
+}
+
+/**
+ * IndexedDB where the browser allows it (private modes and some embedded
+ * views don't), localStorage otherwise.
+ */
+export async function openStorage(): Promise<StorageAdapter> {
+  try {
+    if (typeof indexedDB !== "undefined") {
+      return indexedDbAdapter(await openDatabase());
+    }
+  } catch {
+    // fall through to localStorage
+  }
+  return localStorageAdapter();
+}
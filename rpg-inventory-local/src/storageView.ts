@@ -0,0 +1,131 @@
+import type { ItemCategory } from "./slots.ts";
+import type { Item } from "./types.ts";
+
+const OPERATORS = [">=", "<=", "!=", ">", "<", "="] as const;
+type Operator = (typeof OPERATORS)[number];
+
+export type StatFilter = { key: string; op: Operator; value: string };
+
+// "manual" is the saved storageOrder; stat sorts are "stat:<key>"
+export type StorageSort = "manual" | "name" | "recent" | `stat:${string}`;
+
+export type StorageView = {
+  query: string;
+  category: ItemCategory | "";
+  // Comma-separated conditions such as "attack >= 5, element = fire"
+  statFilter: string;
+  sort: StorageSort;
+  descending: boolean;
+};
+
+export const DEFAULT_VIEW: StorageView = {
+  query: "",
+  category: "",
+  statFilter: "",
+  sort: "manual",
+  descending: false,
+};
+
+/**
+ * Parses the stat filter text. Conditions that can't be read are returned
+ * in `invalid` and otherwise ignored.
+ */
+export function parseStatFilters(text: string) {
+  const filters: StatFilter[] = [];
+  const invalid: string[] = [];
+  for (const part of text.split(",").map((p) => p.trim())) {
+    if (!part) continue;
+    const op = OPERATORS.find((o) => part.includes(o));
+    const [key, value] = op ? part.split(op).map((s) => s.trim()) : [];
+    if (op && key && value !== undefined && value !== "") {
+      filters.push({ key, op, value });
+    } else {
+      invalid.push(part);
+    }
+  }
+  return { filters, invalid };
+}
+
+function matchesStat(item: Item, { key, op, value }: StatFilter) {
+  const stat = item.stats[key];
+  if (stat === undefined) return op === "!=";
+  const num = Number(value);
+  if (typeof stat === "number" && Number.isFinite(num)) {
+    switch (op) {
+      case ">=": return stat >= num;
+      case "<=": return stat <= num;
+      case ">": return stat > num;
+      case "<": return stat < num;
+      case "=": return stat === num;
+      case "!=": return stat !== num;
+    }
+  }
+  const cmp = String(stat).localeCompare(value, undefined, {
+    sensitivity: "base",
+  });
+  switch (op) {
+    case ">=": return cmp >= 0;
+    case "<=": return cmp <= 0;
+    case ">": return cmp > 0;
+    case "<": return cmp < 0;
+    case "=": return cmp === 0;
+    case "!=": return cmp !== 0;
+  }
+}
+
+export function matchesView(item: Item, view: StorageView) {
+  const q = view.query.trim().toLowerCase();
+  if (
+    q &&
+    !item.name.toLowerCase().includes(q) &&
+    !(item.description ?? "").toLowerCase().includes(q)
+  ) {
+    return false;
+  }
+  if (view.category && item.category !== view.category) return false;
+  return parseStatFilters(view.statFilter).filters.every((f) =>
+    matchesStat(item, f)
+  );
+}
+
+export const isFiltered = (view: StorageView) =>
+  !!view.query.trim() || !!view.category || !!view.statFilter.trim();
+
+/**
+ * Orders `storageItems` for display. Never touches storageOrder itself;
+ * "recent" relies on `items` being kept in the order items were added.
+ */
+export function sortStorage(
+  storageItems: Item[],
+  items: Item[],
+  view: StorageView
+): Item[] {
+  if (view.sort === "manual") return storageItems;
+  const dir = view.descending ? -1 : 1;
+  const sorted = [...storageItems];
+  if (view.sort === "name") {
+    sorted.sort((a, b) => dir * a.name.localeCompare(b.name));
+  } else if (view.sort === "recent") {
+    const added = (item: Item) => items.findIndex((i) => i.id === item.id);
+    sorted.sort((a, b) => dir * (added(b) - added(a)));
+  } else {
+    const key = view.sort.slice("stat:".length);
+    sorted.sort((a, b) => {
+      const av = a.stats[key];
+      const bv = b.stats[key];
+      // Items without the stat go last either way
+      if (av === undefined || bv === undefined) {
+        return (av === undefined ? 1 : 0) - (bv === undefined ? 1 : 0);
+      }
+      if (typeof av === "number" && typeof bv === "number") {
+        return dir * (av - bv);
+      }
+      return dir * String(av).localeCompare(String(bv));
+    });
+  }
+  return sorted;
+}
+
+// Every stat key found on `items`, for the sort menu
+export const statKeys = (items: Item[]) =>
+  [...new Set(items.flatMap((i) => Object.keys(i.stats)))].sort();
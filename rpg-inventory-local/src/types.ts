@@ -0,0 +1,80 @@
+import type { GridPositions } from "./grid.ts";
+import type { Rarity } from "./rarity.ts";
+import type { Attribute } from "./requirements.ts";
+import type { ItemCategory } from "./slots.ts";
+
+export type Stats = Record<string, string | number>;
+export type Item = {
+  id: string;
+  name: string;
+  icon?: string;
+  description?: string;
+  // Items saved before categories existed have none and fit any slot.
+  category?: ItemCategory;
+  // Footprint in storage grid cells; 1×1 when missing
+  size?: { w: number; h: number };
+  // Stack count and limit; an item without maxStack does not stack
+  quantity?: number;
+  maxStack?: number;
+  // Weight of one unit; a stack weighs this times its quantity
+  weight?: number;
+  // Bags, pouches and chests hold other items, up to `capacity` weight
+  container?: { capacity?: number };
+  // Gem sockets, and the gems filling them in order; gems keep their whole
+  // item so they come back out unchanged
+  sockets?: number;
+  socketed?: Item[];
+  // Price of one unit in the smallest coin
+  value?: number;
+  // Wears down with use; at 0 the item is broken
+  durability?: { current: number; max: number };
+  // Common when missing
+  rarity?: Rarity;
+  // Names of the affixes a generated item rolled, already in its stats
+  affixes?: string[];
+  // Id of the item set this piece belongs to
+  set?: string;
+  // What a character needs to equip it; classes are alternatives
+  requirements?: {
+    level?: number;
+    attributes?: Partial<Record<Attribute, number>>;
+    classes?: string[];
+  };
+  // Catalog template this item was spawned from
+  templateId?: string;
+  stats: Stats;
+};
+
+// A catalog entry; its quantity is how many a spawn creates
+export type ItemTemplate = Omit<Item, "templateId">;
+export type SlotsState = Record<string, string | null>;
+
+export type Loadout = {
+  id: string;
+  name: string;
+  slots: SlotsState;
+  // Item names at save time, to report items that have since gone
+  names: Record<string, string>;
+};
+
+export type Character = {
+  id: string;
+  name: string;
+  items: Item[];
+  storageOrder: string[];
+  // Contents of each bag the character owns, keyed by the bag's item id
+  containers: Record<string, string[]>;
+  slots: SlotsState;
+  gridPositions: GridPositions;
+  loadouts: Loadout[];
+  // Weight limits; missing means unlimited
+  carryLimit?: number;
+  storageCapacity?: number;
+  // Money in the smallest coin; none when missing
+  wallet?: number;
+  // Checked against item requirements; level 1 and default attributes
+  // when missing
+  level?: number;
+  attributes?: Partial<Record<Attribute, number>>;
+  characterClass?: string;
+};
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  BACKUP_KEY,
+  LS_KEY,
+  loadLocalSave,
+  parseSave,
+  serializeSave,
+  serializeShared,
+  type SaveFile,
+} from "./saveFormat.ts";
+import { openStorage, type StorageAdapter } from "./storage.ts";
+
+// Writes are held back this long so a burst of edits is saved once
+const WRITE_DELAY_MS = 300;
+const CHANNEL_NAME = "rpg-inventory";
+// Touched after each IndexedDB write when there is no BroadcastChannel, so
+// other tabs get a storage event telling them to read the save again
+const CHANGED_KEY = `${LS_KEY}.changed`;
+
+const errorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+// Copies a save that failed to load aside; false when even that fails
+async function backUp(store: StorageAdapter, raw: string) {
+  try {
+    await store.backup(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Loads the save once, then keeps storage in step with `save` and with
+ * other open tabs. Saves made in another tab are handed to `onLoad` just
+ * like the initial one, with `remote` set. Only changes outside a tab's own
+ * character and view choice are written straight away and announced; those
+ * choices are kept with the next write or when the tab goes away. Returns
+ * whether the initial load has finished; nothing is written before that.
+ */
+export function usePersistence(
+  save: SaveFile,
+  onLoad: (save: SaveFile, remote: boolean) => void,
+  onError: (message: string) => void
+) {
+  const [loaded, setLoaded] = useState(false);
+  const adapter = useRef<StorageAdapter | null>(null);
+  const channel = useRef<BroadcastChannel | null>(null);
+  // Shared part of the last save known to be in storage, whether written
+  // here or by another tab
+  const stored = useRef<string | null>(null);
+  const pending = useRef<{ data: string; shared: string } | null>(null);
+
+  const callbacks = useRef({ onLoad, onError });
+  useEffect(() => {
+    callbacks.current = { onLoad, onError };
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const store = await openStorage();
+      let raw: string | null = null;
+      let save: SaveFile | null = null;
+      try {
+        raw = await store.read();
+        // Nothing in IndexedDB yet: pick up what older builds left behind
+        save = raw ? parseSave(raw) : loadLocalSave();
+      } catch (err) {
+        const reason = `Your saved inventory could not be loaded (${
+          errorMessage(err)
+        }).`;
+        if (!raw) {
+          // Only older builds' localStorage keys failed, and nothing here
+          // writes to those
+          callbacks.current.onError(
+            `${reason} Starting fresh; the old data was left where it was.`
+          );
+        } else if (await backUp(store, raw)) {
+          callbacks.current.onError(
+            `${reason} Starting fresh; the old data was kept under "${BACKUP_KEY}" in ${store.kind}.`
+          );
+        } else if (
+          !confirm(
+            `${reason} It could not be backed up either. Start fresh and overwrite it?`
+          )
+        ) {
+          // Without an adapter nothing is ever written, so the original
+          // survives for another try
+          callbacks.current.onError(
+            `${reason} Changes made now won't be saved; reload to try again.`
+          );
+          if (cancelled) return;
+          setLoaded(true);
+          return;
+        }
+      }
+      if (cancelled) return;
+      adapter.current = store;
+      // A migrated save, or one only found under older keys, differs from
+      // what is stored and so is written back in the current format
+      stored.current =
+        save && raw === serializeSave(save) ? serializeShared(save) : raw;
+      if (save) callbacks.current.onLoad(save, false);
+      setLoaded(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Other tabs announce every save on a BroadcastChannel; browsers without
+  // one still see localStorage writes, or the IndexedDB change marker,
+  // through the storage event.
+  useEffect(() => {
+    function receive(data: string) {
+      try {
+        const save = parseSave(data);
+        const shared = serializeShared(save);
+        if (shared === stored.current) return;
+        stored.current = shared;
+        callbacks.current.onLoad(save, true);
+      } catch (err) {
+        callbacks.current.onError(
+          `Ignored a save from another tab: ${errorMessage(err)}`
+        );
+      }
+    }
+
+    if (typeof BroadcastChannel !== "undefined") {
+      const ch = new BroadcastChannel(CHANNEL_NAME);
+      ch.onmessage = (e: MessageEvent<string>) => receive(e.data);
+      channel.current = ch;
+      return () => {
+        ch.close();
+        channel.current = null;
+      };
+    }
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === LS_KEY && e.newValue) receive(e.newValue);
+      if (e.key === CHANGED_KEY) {
+        adapter.current
+          ?.read()
+          .then((data) => data && receive(data))
+          .catch((err) =>
+            callbacks.current.onError(
+              `Could not read a save from another tab: ${errorMessage(err)}`
+            )
+          );
+      }
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  function flush() {
+    if (!pending.current || !adapter.current) return;
+    const { data, shared } = pending.current;
+    pending.current = null;
+    const changed = shared !== stored.current;
+    stored.current = shared;
+    const store = adapter.current;
+    store
+      .write(data)
+      .then(() => {
+        if (changed && !channel.current && store.kind === "indexedDB") {
+          localStorage.setItem(CHANGED_KEY, String(Date.now()));
+        }
+      })
+      .catch((err) =>
+        callbacks.current.onError(`Saving failed: ${errorMessage(err)}`)
+      );
+    if (changed) channel.current?.postMessage(data);
+  }
+
+  useEffect(() => {
+    if (!loaded) return;
+    const shared = serializeShared(save);
+    pending.current = { data: serializeSave(save), shared };
+    // A new character or view alone waits for the next write or pagehide
+    if (shared === stored.current) return;
+    const timer = setTimeout(flush, WRITE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [loaded, save]);
+
+  // Don't lose the last edits to the debounce when the tab goes away
+  useEffect(() => {
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, []);
+
+  return loaded;
+}
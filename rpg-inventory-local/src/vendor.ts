@@ -0,0 +1,55 @@
+import { quantityOf } from "./stacks.ts";
+import type { Item } from "./types.ts";
+
+// Droppable id of the vendor panel; items dropped on it are sold
+export const VENDOR_ID = "vendor";
+
+export type Transaction = {
+  id: string;
+  // ISO timestamp
+  at: string;
+  character: string;
+  kind: "buy" | "sell";
+  item: string;
+  quantity: number;
+  // Money paid or received, in the smallest coin
+  amount: number;
+};
+
+export type Vendor = {
+  // Applied to an item's value when buying from and selling to the vendor
+  buyMultiplier: number;
+  sellMultiplier: number;
+  // Newest first
+  log: Transaction[];
+};
+
+export const DEFAULT_VENDOR: Vendor = {
+  buyMultiplier: 1,
+  sellMultiplier: 0.5,
+  log: [],
+};
+
+const LOG_LIMIT = 100;
+
+// Items without a value can't be bought or sold
+export const hasValue = (item: Item) => (item.value ?? 0) > 0;
+
+// A whole stack changes hands at once; the vendor rounds in its own favour
+export const buyPrice = (item: Item, vendor: Vendor) =>
+  Math.ceil((item.value ?? 0) * quantityOf(item) * vendor.buyMultiplier);
+
+export const sellPrice = (item: Item, vendor: Vendor) =>
+  Math.floor((item.value ?? 0) * quantityOf(item) * vendor.sellMultiplier);
+
+export function logTransaction(
+  vendor: Vendor,
+  transaction: Omit<Transaction, "id" | "at">
+): Vendor {
+  const entry = {
+    ...transaction,
+    id: crypto.randomUUID(),
+    at: new Date().toISOString(),
+  };
+  return { ...vendor, log: [entry, ...vendor.log].slice(0, LOG_LIMIT) };
+}
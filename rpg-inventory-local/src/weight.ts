@@ -0,0 +1,113 @@
+import {
+  STORAGE_ID,
+  containerChain,
+  contentsOf,
+  descendantsOf,
+} from "./containers.ts";
+import { quantityOf } from "./stacks.ts";
+import type { Character, Item, Stats } from "./types.ts";
+
+export const ENCUMBRANCE_TIERS = ["normal", "burdened", "overloaded"] as const;
+export type Encumbrance = (typeof ENCUMBRANCE_TIERS)[number];
+
+export const ENCUMBRANCE_LABELS: Record<Encumbrance, string> = {
+  normal: "Normal",
+  burdened: "Burdened",
+  overloaded: "Overloaded",
+};
+
+// Stat modifiers each tier adds to the character sheet
+export const ENCUMBRANCE_EFFECTS: Record<Encumbrance, Stats> = {
+  normal: {},
+  burdened: { speed: -10 },
+  overloaded: { speed: -25, evasion: -10 },
+};
+
+// Past the carry limit a character is burdened; past this multiple of it,
+// overloaded
+const OVERLOAD_FACTOR = 1.5;
+
+// A whole stack weighs its unit weight times its quantity; socketed gems
+// add theirs
+export const itemWeight = (item: Item): number =>
+  (item.weight ?? 0) * quantityOf(item) +
+  (item.socketed ?? []).reduce((sum, gem) => sum + itemWeight(gem), 0);
+
+export const totalWeight = (items: Item[]) =>
+  items.reduce((sum, item) => sum + itemWeight(item), 0);
+
+// Rounds away float noise such as 0.30000000000000004
+export const formatWeight = (weight: number) =>
+  String(Math.round(weight * 100) / 100);
+
+// An item plus everything packed inside it
+export function packedWeight(character: Character, itemId: string): number {
+  const item = character.items.find((i) => i.id === itemId);
+  return (character.containers[itemId] ?? []).reduce(
+    (sum, id) => sum + packedWeight(character, id),
+    item ? itemWeight(item) : 0
+  );
+}
+
+export const containerWeight = (character: Character, containerId: string) =>
+  contentsOf(character, containerId).reduce(
+    (sum, id) => sum + packedWeight(character, id),
+    0
+  );
+
+export const storageWeight = (character: Character) =>
+  containerWeight(character, STORAGE_ID);
+
+// Missing means the container takes any weight
+export function capacityOf(character: Character, containerId: string) {
+  return containerId === STORAGE_ID
+    ? character.storageCapacity
+    : character.items.find((i) => i.id === containerId)?.container?.capacity;
+}
+
+// Everything the character owns counts, equipped or stored
+export const carriedWeight = (character: Character) =>
+  totalWeight(character.items);
+
+export function encumbrance(character: Character): Encumbrance {
+  const limit = character.carryLimit;
+  const carried = carriedWeight(character);
+  if (limit === undefined || carried <= limit) return "normal";
+  return carried <= limit * OVERLOAD_FACTOR ? "burdened" : "overloaded";
+}
+
+/**
+ * Whether `containerId` and every container around it stay within capacity
+ * after the `incoming` ids move in and the `outgoing` ones move out.
+ * Incoming items are weighed as packed in `source`, for moves between
+ * characters. A change that lightens a container is always allowed, so a
+ * capacity lowered below the current load never traps items.
+ */
+export function fitsContainer(
+  character: Character,
+  containerId: string,
+  incoming: string[],
+  {
+    outgoing = [],
+    source = character,
+  }: { outgoing?: string[]; source?: Character } = {}
+) {
+  return containerChain(character, containerId).every((id) => {
+    const capacity = capacityOf(character, id);
+    if (capacity === undefined) return true;
+    const inside = new Set(
+      contentsOf(character, id).flatMap((x) => [
+        x,
+        ...descendantsOf(character, x),
+      ])
+    );
+    const delta =
+      incoming
+        .filter((x) => !inside.has(x))
+        .reduce((sum, x) => sum + packedWeight(source, x), 0) -
+      outgoing
+        .filter((x) => inside.has(x))
+        .reduce((sum, x) => sum + packedWeight(character, x), 0);
+    return delta <= 0 || containerWeight(character, id) + delta <= capacity;
+  });
+}